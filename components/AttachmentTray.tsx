@@ -0,0 +1,83 @@
+
+import React from 'react';
+import { FileText, Image as ImageIcon, X, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { ComposerAttachment } from '../types';
+
+interface AttachmentTrayProps {
+  attachments: ComposerAttachment[];
+  disabled: boolean;
+  onRemove: (id: string) => void;
+}
+
+// Slack accepts up to 1 GB, but anything this large is impractical to push through a browser proxy
+export const MAX_ATTACHMENT_BYTES = 100 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Wraps dropped or pasted files as attachments, rejecting empty, oversized or surplus files.
+ */
+export const createAttachments = (files: File[], existingCount: number) => {
+  const added: ComposerAttachment[] = [];
+  const rejected: string[] = [];
+
+  files.forEach(file => {
+    if (file.size === 0) {
+      rejected.push(`${file.name} is empty`);
+    } else if (file.size > MAX_ATTACHMENT_BYTES) {
+      rejected.push(`${file.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`);
+    } else if (existingCount + added.length >= MAX_ATTACHMENTS) {
+      rejected.push(`${file.name} skipped: at most ${MAX_ATTACHMENTS} files per message`);
+    } else {
+      added.push({ id: crypto.randomUUID(), file, status: 'pending', progress: 0 });
+    }
+  });
+
+  return { added, rejected };
+};
+
+export const AttachmentTray: React.FC<AttachmentTrayProps> = ({ attachments, disabled, onRemove }) => (
+  <div className="flex flex-wrap gap-3 animate-in fade-in slide-in-from-bottom-2">
+    {attachments.map(attachment => {
+      const isImage = attachment.file.type.startsWith('image/');
+      const Icon = isImage ? ImageIcon : FileText;
+      return (
+        <div key={attachment.id} className="w-60 p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl space-y-2">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 bg-white rounded-xl border border-slate-100 flex items-center justify-center shrink-0">
+              <Icon className="w-4 h-4 text-slate-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-xs font-bold text-slate-800 truncate" title={attachment.file.name}>{attachment.file.name}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{formatBytes(attachment.file.size)}</p>
+            </div>
+            {attachment.status === 'uploaded' ? (
+              <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />
+            ) : attachment.status === 'error' ? (
+              <span title={attachment.error}><AlertCircle className="w-4 h-4 text-rose-500 shrink-0" /></span>
+            ) : null}
+            <button
+              onClick={() => onRemove(attachment.id)}
+              disabled={disabled}
+              className="p-1 text-slate-300 hover:text-rose-500 transition-all disabled:opacity-30"
+              title="Remove attachment"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${attachment.status === 'error' ? 'bg-rose-500' : attachment.status === 'uploaded' ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+              style={{ width: `${Math.round(attachment.progress * 100)}%` }}
+            />
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,357 @@
+
+import React, { useState } from 'react';
+import {
+  Heading,
+  AlignLeft,
+  Minus,
+  Info,
+  MousePointerClick,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  Plus,
+  Code2,
+  LayoutGrid,
+  AlertCircle,
+  CheckCircle2,
+} from 'lucide-react';
+import { SlackBlock, SlackBlockType, ButtonElement } from '../types';
+import { createBlock, createButton, parseBlocksJson, validateBlocks } from '../services/blockKit';
+import { Mrkdwn } from './Mrkdwn';
+
+interface BlockKitBuilderProps {
+  blocks: SlackBlock[];
+  onChange: (blocks: SlackBlock[]) => void;
+}
+
+const BLOCK_TYPES: { type: SlackBlockType; label: string; icon: React.ElementType }[] = [
+  { type: 'header', label: 'Header', icon: Heading },
+  { type: 'section', label: 'Section', icon: AlignLeft },
+  { type: 'divider', label: 'Divider', icon: Minus },
+  { type: 'context', label: 'Context', icon: Info },
+  { type: 'actions', label: 'Buttons', icon: MousePointerClick },
+];
+
+const inputClass = 'w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none text-sm transition-all';
+
+const ButtonEditor: React.FC<{ button: ButtonElement; onChange: (button: ButtonElement) => void; onRemove?: () => void }> = ({ button, onChange, onRemove }) => (
+  <div className="flex gap-2 items-center">
+    <input
+      value={button.text.text}
+      onChange={(e) => onChange({ ...button, text: { ...button.text, text: e.target.value } })}
+      placeholder="Label"
+      className={`${inputClass} w-40`}
+    />
+    <input
+      value={button.url || ''}
+      onChange={(e) => onChange({ ...button, url: e.target.value || undefined })}
+      placeholder="https://link (optional)"
+      className={inputClass}
+    />
+    <select
+      value={button.style || ''}
+      onChange={(e) => onChange({ ...button, style: (e.target.value || undefined) as ButtonElement['style'] })}
+      className={`${inputClass} w-32`}
+    >
+      <option value="">Default</option>
+      <option value="primary">Primary</option>
+      <option value="danger">Danger</option>
+    </select>
+    {onRemove && (
+      <button onClick={onRemove} className="p-2 text-slate-300 hover:text-rose-500 transition-all" title="Remove button">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    )}
+  </div>
+);
+
+const BlockEditor: React.FC<{ block: SlackBlock; onChange: (block: SlackBlock) => void }> = ({ block, onChange }) => {
+  switch (block.type) {
+    case 'header':
+      return (
+        <input
+          value={block.text.text}
+          onChange={(e) => onChange({ ...block, text: { ...block.text, text: e.target.value } })}
+          placeholder="Header text"
+          className={`${inputClass} font-black`}
+        />
+      );
+    case 'section':
+      return (
+        <div className="space-y-2">
+          <textarea
+            value={block.text?.text || ''}
+            onChange={(e) => onChange({ ...block, text: { type: 'mrkdwn', text: e.target.value } })}
+            placeholder="Section text (mrkdwn)"
+            rows={3}
+            className={`${inputClass} resize-none`}
+          />
+          {block.accessory ? (
+            <ButtonEditor
+              button={block.accessory}
+              onChange={(accessory) => onChange({ ...block, accessory })}
+              onRemove={() => onChange({ ...block, accessory: undefined })}
+            />
+          ) : (
+            <button
+              onClick={() => onChange({ ...block, accessory: createButton('Learn more') })}
+              className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700"
+            >
+              + Add side button
+            </button>
+          )}
+        </div>
+      );
+    case 'divider':
+      return <div className="h-px bg-slate-200 my-3" />;
+    case 'context':
+      return (
+        <div className="space-y-2">
+          {block.elements.map((el, i) => (
+            <div key={i} className="flex gap-2">
+              <input
+                value={el.text}
+                onChange={(e) => {
+                  const elements = [...block.elements];
+                  elements[i] = { ...el, text: e.target.value };
+                  onChange({ ...block, elements });
+                }}
+                placeholder="Context text"
+                className={`${inputClass} text-xs`}
+              />
+              {block.elements.length > 1 && (
+                <button
+                  onClick={() => onChange({ ...block, elements: block.elements.filter((_, j) => j !== i) })}
+                  className="p-2 text-slate-300 hover:text-rose-500 transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...block, elements: [...block.elements, { type: 'mrkdwn', text: '' }] })}
+            className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700"
+          >
+            + Add element
+          </button>
+        </div>
+      );
+    case 'actions':
+      return (
+        <div className="space-y-2">
+          {block.elements.map((button, i) => (
+            <ButtonEditor
+              key={i}
+              button={button}
+              onChange={(next) => {
+                const elements = [...block.elements];
+                elements[i] = next;
+                onChange({ ...block, elements });
+              }}
+              onRemove={block.elements.length > 1 ? () => onChange({ ...block, elements: block.elements.filter((_, j) => j !== i) }) : undefined}
+            />
+          ))}
+          <button
+            onClick={() => onChange({ ...block, elements: [...block.elements, createButton('Button')] })}
+            className="text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700"
+          >
+            + Add button
+          </button>
+        </div>
+      );
+  }
+};
+
+const PreviewButton: React.FC<{ button: ButtonElement }> = ({ button }) => (
+  <span
+    className={`inline-block px-3 py-1.5 rounded-md text-xs font-bold border ${
+      button.style === 'primary'
+        ? 'bg-emerald-700 border-emerald-700 text-white'
+        : button.style === 'danger'
+          ? 'bg-white border-rose-300 text-rose-700'
+          : 'bg-white border-slate-300 text-slate-800'
+    }`}
+  >
+    {button.text.text}
+  </span>
+);
+
+/**
+ * Approximates how Slack renders the supported block types. Tolerates malformed
+ * blocks since the JSON editor can hand us anything that parses.
+ */
+export const BlockKitPreview: React.FC<{ blocks: SlackBlock[] }> = ({ blocks }) => (
+  <div className="space-y-3 text-sm text-slate-800">
+    {blocks.map((block, i) => {
+      switch (block?.type) {
+        case 'header':
+          return <h4 key={i} className="text-lg font-black">{block.text?.text}</h4>;
+        case 'section':
+          return (
+            <div key={i} className="flex gap-4 items-start">
+              <div className="flex-1 space-y-2">
+                {block.text && <Mrkdwn text={block.text.text || ''} />}
+                {Array.isArray(block.fields) && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {block.fields.map((field, j) => <Mrkdwn key={j} text={field?.text || ''} />)}
+                  </div>
+                )}
+              </div>
+              {block.accessory?.text && <PreviewButton button={block.accessory} />}
+            </div>
+          );
+        case 'divider':
+          return <hr key={i} className="border-slate-200" />;
+        case 'context':
+          return (
+            <div key={i} className="flex flex-wrap gap-3 text-xs text-slate-500">
+              {block.elements?.map((el, j) => <Mrkdwn key={j} text={el?.text || ''} />)}
+            </div>
+          );
+        case 'actions':
+          return (
+            <div key={i} className="flex flex-wrap gap-2">
+              {block.elements?.map((button, j) => button?.text && <PreviewButton key={j} button={button} />)}
+            </div>
+          );
+        default:
+          return null;
+      }
+    })}
+  </div>
+);
+
+export const BlockKitBuilder: React.FC<BlockKitBuilderProps> = ({ blocks, onChange }) => {
+  const [mode, setMode] = useState<'visual' | 'json'>('visual');
+  const [jsonDraft, setJsonDraft] = useState('');
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+
+  const errors = mode === 'json' ? jsonErrors : validateBlocks(blocks);
+
+  const switchMode = (next: 'visual' | 'json') => {
+    if (next === 'json') {
+      setJsonDraft(JSON.stringify(blocks, null, 2));
+      setJsonErrors(validateBlocks(blocks));
+    }
+    setMode(next);
+  };
+
+  const handleJsonChange = (value: string) => {
+    setJsonDraft(value);
+    const result = parseBlocksJson(value);
+    setJsonErrors(result.errors);
+    if (result.blocks) onChange(result.blocks);
+  };
+
+  const updateBlock = (index: number, block: SlackBlock) => {
+    const next = [...blocks];
+    next[index] = block;
+    onChange(next);
+  };
+
+  const moveBlock = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= blocks.length) return;
+    const next = [...blocks];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-6 animate-in fade-in slide-in-from-bottom-2">
+      <div className="bg-slate-50 border-2 border-slate-100 rounded-[2rem] p-6 space-y-4 max-h-[28rem] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1 bg-white p-1 rounded-xl border border-slate-100">
+            <button
+              onClick={() => switchMode('visual')}
+              disabled={mode === 'json' && jsonErrors.length > 0}
+              title={mode === 'json' && jsonErrors.length > 0 ? 'Fix JSON errors to return to the visual editor' : undefined}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === 'visual' ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-700'} disabled:opacity-40`}
+            >
+              <LayoutGrid className="w-3.5 h-3.5" />
+              Visual
+            </button>
+            <button
+              onClick={() => switchMode('json')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === 'json' ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-700'}`}
+            >
+              <Code2 className="w-3.5 h-3.5" />
+              JSON
+            </button>
+          </div>
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{blocks.length} / 50 blocks</span>
+        </div>
+
+        {mode === 'json' ? (
+          <textarea
+            value={jsonDraft}
+            onChange={(e) => handleJsonChange(e.target.value)}
+            spellCheck={false}
+            className="w-full h-72 p-4 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none text-xs font-mono resize-none"
+          />
+        ) : (
+          <>
+            {blocks.map((block, i) => (
+              <div key={i} className="bg-white border border-slate-100 rounded-2xl p-4 space-y-3 shadow-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{block.type}</span>
+                  <div className="flex gap-1">
+                    <button onClick={() => moveBlock(i, -1)} disabled={i === 0} className="p-1 text-slate-300 hover:text-slate-700 disabled:opacity-30">
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveBlock(i, 1)} disabled={i === blocks.length - 1} className="p-1 text-slate-300 hover:text-slate-700 disabled:opacity-30">
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onChange(blocks.filter((_, j) => j !== i))} className="p-1 text-slate-300 hover:text-rose-500">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <BlockEditor block={block} onChange={(next) => updateBlock(i, next)} />
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {BLOCK_TYPES.map(({ type, label, icon: Icon }) => (
+                <button
+                  key={type}
+                  onClick={() => onChange([...blocks, createBlock(type)])}
+                  className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                >
+                  <Plus className="w-3 h-3" />
+                  <Icon className="w-3.5 h-3.5" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {errors.length > 0 ? (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl space-y-1">
+            {errors.map((error, i) => (
+              <p key={i} className="flex items-start gap-2 text-[11px] font-bold text-rose-700">
+                <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                {error}
+              </p>
+            ))}
+          </div>
+        ) : blocks.length > 0 && (
+          <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-emerald-600">
+            <CheckCircle2 className="w-3.5 h-3.5" />
+            Valid Block Kit payload
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white border-2 border-slate-100 rounded-[2rem] p-6 max-h-[28rem] overflow-y-auto">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4">Preview</p>
+        {blocks.length ? (
+          <BlockKitPreview blocks={blocks} />
+        ) : (
+          <p className="text-sm text-slate-300 font-bold">Add blocks to see a preview.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+
+import React from 'react';
+import { CheckCircle2, AlertCircle, Clock, RefreshCw, Hash, Ban, SearchX, Radio } from 'lucide-react';
+import { BroadcastResult, BroadcastStatus, SlackChannel } from '../types';
+import { isBroadcastFailure } from '../services/broadcast';
+
+interface BroadcastReportProps {
+  results: BroadcastResult[];
+  channels: SlackChannel[];
+  isRunning: boolean;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const STATUS_META: Record<BroadcastStatus, { label: string; icon: React.ElementType; className: string }> = {
+  pending: { label: 'Queued', icon: Clock, className: 'text-slate-400 bg-slate-50' },
+  sending: { label: 'Sending', icon: RefreshCw, className: 'text-indigo-600 bg-indigo-50' },
+  ok: { label: 'Delivered', icon: CheckCircle2, className: 'text-emerald-700 bg-emerald-50' },
+  not_in_channel: { label: 'Bot not in channel', icon: Ban, className: 'text-amber-700 bg-amber-50' },
+  channel_not_found: { label: 'Channel not found', icon: SearchX, className: 'text-rose-700 bg-rose-50' },
+  rate_limited: { label: 'Rate limited', icon: Clock, className: 'text-amber-700 bg-amber-50' },
+  error: { label: 'Failed', icon: AlertCircle, className: 'text-rose-700 bg-rose-50' },
+};
+
+export const BroadcastReport: React.FC<BroadcastReportProps> = ({ results, channels, isRunning, onRetryFailed, onClose }) => {
+  const channelName = (id: string) => channels.find(c => c.id === id)?.name || id;
+  const delivered = results.filter(r => r.status === 'ok').length;
+  const failed = results.filter(isBroadcastFailure).length;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/90 backdrop-blur-xl z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-500">
+        <div className="p-12 space-y-8">
+          <div className="text-center space-y-3">
+            <div className="w-20 h-20 bg-slate-50 rounded-[2rem] flex items-center justify-center mx-auto border-2 border-slate-100 shadow-inner">
+              <Radio className={`w-10 h-10 text-indigo-500 ${isRunning ? 'animate-pulse' : ''}`} />
+            </div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tighter uppercase italic">Broadcast Report</h2>
+            <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">
+              {delivered} of {results.length} delivered{failed > 0 && ` · ${failed} failed`}
+            </p>
+          </div>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {results.map(result => {
+              const meta = STATUS_META[result.status];
+              const Icon = meta.icon;
+              return (
+                <div key={result.channelId} className="flex items-center justify-between px-5 py-3 rounded-2xl border border-slate-100">
+                  <span className="flex items-center gap-2 text-sm font-bold text-slate-800 truncate">
+                    <Hash className="w-4 h-4 text-slate-400 shrink-0" />
+                    {channelName(result.channelId)}
+                  </span>
+                  <span
+                    className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest shrink-0 ${meta.className}`}
+                    title={result.error}
+                  >
+                    <Icon className={`w-3.5 h-3.5 ${result.status === 'sending' ? 'animate-spin' : ''}`} />
+                    {meta.label}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-5">
+            <button
+              onClick={onClose}
+              disabled={isRunning}
+              className="flex-1 py-4 px-8 border-2 border-slate-50 rounded-[1.5rem] font-black text-slate-400 hover:bg-slate-50 hover:text-slate-600 transition-all active:scale-95 uppercase text-xs tracking-widest disabled:opacity-40"
+            >
+              Close
+            </button>
+            <button
+              onClick={onRetryFailed}
+              disabled={isRunning || failed === 0}
+              className="flex-1 py-4 px-8 bg-slate-900 hover:bg-indigo-600 disabled:bg-slate-200 text-white rounded-[1.5rem] font-black shadow-2xl shadow-slate-200 transition-all active:scale-95 uppercase text-xs tracking-widest flex items-center justify-center gap-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Retry Failed
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
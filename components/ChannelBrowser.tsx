@@ -0,0 +1,206 @@
+
+import React, { useMemo, useState } from 'react';
+import { Hash, Lock, Search, Star, Check, Users, LogIn, LogOut, Archive, PenLine, RefreshCw, X } from 'lucide-react';
+import { ChannelSort, SlackChannel } from '../types';
+import { browseChannels } from '../services/channelBrowser';
+
+interface ChannelBrowserProps {
+  channels: SlackChannel[];
+  selectedChannelId: string | null;
+  starredIds: string[];
+  draftChannelIds: Set<string>;
+  broadcastTargets: string[];
+  // Channel with a join or leave in flight
+  busyChannelId: string | null;
+  isSyncing: boolean;
+  onSelect: (channel: SlackChannel) => void;
+  onToggleStar: (channelId: string) => void;
+  onToggleBroadcast: (channelId: string) => void;
+  onJoin: (channel: SlackChannel) => void;
+  onLeave: (channel: SlackChannel) => void;
+  onSync: () => void;
+}
+
+const SORT_LABELS: Record<ChannelSort, string> = { name: 'A–Z', members: 'Members' };
+
+const pillClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+    active ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'
+  }`;
+
+export const ChannelBrowser: React.FC<ChannelBrowserProps> = ({
+  channels,
+  selectedChannelId,
+  starredIds,
+  draftChannelIds,
+  broadcastTargets,
+  busyChannelId,
+  isSyncing,
+  onSelect,
+  onToggleStar,
+  onToggleBroadcast,
+  onJoin,
+  onLeave,
+  onSync,
+}) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<ChannelSort>('name');
+  const [hideArchived, setHideArchived] = useState(true);
+
+  const visible: SlackChannel[] = useMemo(
+    () => browseChannels(channels, { query, sort, hideArchived, starredIds }),
+    [channels, query, sort, hideArchived, starredIds]
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 px-3">
+        <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Live Channels</h2>
+        <button
+          onClick={onSync}
+          className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition-all"
+          title="Sync Workspace"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isSyncing ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="px-1 mb-3 space-y-2">
+        <div className="relative">
+          <Search className="w-3.5 h-3.5 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setQuery('');
+              if (e.key === 'Enter' && visible[0]) onSelect(visible[0]);
+            }}
+            placeholder="Find channel"
+            className="w-full pl-9 pr-8 py-2.5 bg-slate-800/60 border border-slate-700 rounded-xl text-sm font-bold text-white placeholder:text-slate-500 outline-none focus:border-indigo-500 transition-all"
+          />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-2.5 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white"
+              title="Clear search"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {(Object.keys(SORT_LABELS) as ChannelSort[]).map(option => (
+            <button key={option} onClick={() => setSort(option)} aria-pressed={sort === option} className={pillClass(sort === option)}>
+              {SORT_LABELS[option]}
+            </button>
+          ))}
+          <button
+            onClick={() => setHideArchived(!hideArchived)}
+            aria-pressed={!hideArchived}
+            className={`ml-auto flex items-center gap-1.5 ${pillClass(!hideArchived)}`}
+            title={hideArchived ? 'Show archived channels' : 'Hide archived channels'}
+          >
+            <Archive className="w-3 h-3" />
+            Archived
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {visible.map(channel => {
+          const isSelected = selectedChannelId === channel.id;
+          const isStarred = starredIds.includes(channel.id);
+          const isTarget = broadcastTargets.includes(channel.id);
+          const isBusy = busyChannelId === channel.id;
+          // Slack only reports membership on some responses, so an absent flag counts as joined
+          const isMember = channel.is_member !== false;
+
+          return (
+            <div
+              key={channel.id}
+              className={`flex items-center gap-2 pr-3 rounded-xl transition-all group ${
+                isSelected ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-600/20' : 'hover:bg-slate-800 hover:text-white'
+              } ${channel.is_archived ? 'opacity-60' : ''}`}
+            >
+              <button onClick={() => onSelect(channel)} className="flex-1 min-w-0 flex items-center gap-3 pl-4 py-3.5 text-left">
+                <div className="flex-shrink-0 opacity-60 group-hover:opacity-100">
+                  {channel.is_private ? <Lock className="w-4 h-4" /> : <Hash className="w-4 h-4" />}
+                </div>
+                <span className="truncate text-sm font-bold tracking-tight">{channel.name}</span>
+                {draftChannelIds.has(channel.id) && !isSelected && (
+                  <PenLine aria-label="Draft saved" className="w-3.5 h-3.5 shrink-0 text-amber-300" />
+                )}
+              </button>
+
+              {channel.is_archived ? (
+                <span className="shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-500">Archived</span>
+              ) : !isMember ? (
+                channel.is_private ? (
+                  <span className="shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-500">Invite Only</span>
+                ) : (
+                  <button
+                    onClick={() => onJoin(channel)}
+                    disabled={isBusy}
+                    className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg bg-slate-800 text-[9px] font-black uppercase tracking-widest text-emerald-400 hover:bg-emerald-500 hover:text-white transition-all disabled:opacity-40"
+                    title={`Join #${channel.name}`}
+                  >
+                    {isBusy ? <RefreshCw className="w-3 h-3 animate-spin" /> : <LogIn className="w-3 h-3" />}
+                    Join
+                  </button>
+                )
+              ) : channel.num_members !== undefined && (
+                <span className="shrink-0 flex items-center gap-1 text-[10px] font-black text-slate-500 group-hover:hidden" title={`${channel.num_members} members`}>
+                  <Users className="w-3 h-3" />
+                  {channel.num_members}
+                </span>
+              )}
+
+              {isMember && !channel.is_archived && (
+                <button
+                  onClick={() => onLeave(channel)}
+                  disabled={isBusy}
+                  className="shrink-0 hidden group-hover:block text-slate-500 hover:text-rose-400 transition-all disabled:opacity-40"
+                  title={`Leave #${channel.name}`}
+                >
+                  {isBusy ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <LogOut className="w-3.5 h-3.5" />}
+                </button>
+              )}
+
+              <button
+                onClick={() => onToggleStar(channel.id)}
+                aria-pressed={isStarred}
+                className={`shrink-0 transition-all ${isStarred ? 'text-amber-400' : 'text-slate-500 opacity-0 group-hover:opacity-100 hover:text-amber-400'}`}
+                title={isStarred ? 'Unstar channel' : 'Star channel'}
+              >
+                <Star className={`w-3.5 h-3.5 ${isStarred ? 'fill-amber-400' : ''}`} />
+              </button>
+
+              <button
+                role="checkbox"
+                aria-checked={isTarget}
+                onClick={() => onToggleBroadcast(channel.id)}
+                title="Include in broadcast"
+                className={`w-4 h-4 shrink-0 rounded border-2 flex items-center justify-center transition-all ${
+                  isTarget ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-600 opacity-0 group-hover:opacity-100'
+                }`}
+              >
+                {isTarget && <Check className="w-3 h-3" />}
+              </button>
+            </div>
+          );
+        })}
+
+        {channels.length === 0 && !isSyncing && (
+          <div className="px-4 py-8 text-center bg-slate-800/20 rounded-2xl border border-dashed border-slate-700">
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">No Active Channels</p>
+          </div>
+        )}
+        {channels.length > 0 && visible.length === 0 && (
+          <div className="px-4 py-8 text-center bg-slate-800/20 rounded-2xl border border-dashed border-slate-700">
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">No Matching Channels</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+
+import React, { useState } from 'react';
+import { Layers, Plus, Trash2, X } from 'lucide-react';
+import { ChannelGroup } from '../types';
+
+interface ChannelGroupsProps {
+  groups: ChannelGroup[];
+  selectionCount: number;
+  onApply: (group: ChannelGroup) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onClearSelection: () => void;
+}
+
+export const ChannelGroups: React.FC<ChannelGroupsProps> = ({
+  groups,
+  selectionCount,
+  onApply,
+  onSave,
+  onDelete,
+  onClearSelection,
+}) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-5 px-3">
+        <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Channel Groups</h2>
+        {selectionCount > 0 && (
+          <button
+            onClick={onClearSelection}
+            className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all"
+            title="Clear broadcast selection"
+          >
+            <X className="w-3 h-3" />
+            {selectionCount} selected
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {groups.map(group => (
+          <div key={group.id} className="flex items-center group">
+            <button
+              onClick={() => onApply(group)}
+              className="flex-1 flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-slate-800 hover:text-white transition-all text-left min-w-0"
+            >
+              <Layers className="w-4 h-4 opacity-60 shrink-0" />
+              <span className="truncate text-sm font-bold tracking-tight">{group.name}</span>
+              <span className="ml-auto text-[10px] font-black text-slate-500">{group.channelIds.length}</span>
+            </button>
+            <button
+              onClick={() => onDelete(group.id)}
+              className="p-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-rose-400 transition-all"
+              title="Delete group"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+
+        {isNaming ? (
+          <div className="flex gap-2 px-2 pt-1">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submit();
+                if (e.key === 'Escape') setIsNaming(false);
+              }}
+              placeholder="Group name"
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-xs text-white outline-none focus:border-indigo-500"
+            />
+            <button onClick={submit} className="px-3 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase">Save</button>
+          </div>
+        ) : selectionCount > 0 ? (
+          <button
+            onClick={() => setIsNaming(true)}
+            className="w-full flex items-center gap-2 px-4 py-3 rounded-xl border border-dashed border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white hover:border-slate-500 transition-all"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Save selection as group
+          </button>
+        ) : groups.length === 0 && (
+          <p className="px-4 text-[10px] text-slate-600 font-bold uppercase tracking-widest leading-relaxed">
+            Tick channels to broadcast to several at once.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
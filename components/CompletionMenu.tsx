@@ -0,0 +1,47 @@
+
+import React from 'react';
+import { AtSign, Hash, Smile } from 'lucide-react';
+import { CompletionTrigger, Suggestion } from '../services/autocomplete';
+
+interface CompletionMenuProps {
+  trigger: CompletionTrigger;
+  suggestions: Suggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: Suggestion) => void;
+  onHover: (index: number) => void;
+}
+
+const TRIGGER_ICONS = { '@': AtSign, '#': Hash, ':': Smile };
+const TRIGGER_TITLES = { '@': 'People', '#': 'Channels', ':': 'Emoji' };
+
+export const CompletionMenu: React.FC<CompletionMenuProps> = ({ trigger, suggestions, activeIndex, onSelect, onHover }) => {
+  const Icon = TRIGGER_ICONS[trigger];
+
+  return (
+    <div className="absolute left-10 bottom-full mb-3 z-30 w-80 bg-white border border-slate-100 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-slate-50 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <Icon className="w-3.5 h-3.5" />
+        {TRIGGER_TITLES[trigger]}
+        <span className="ml-auto normal-case tracking-normal font-bold">↑↓ to choose · Tab to insert</span>
+      </div>
+      {suggestions.map((suggestion, i) => (
+        <button
+          key={suggestion.key}
+          // Keep focus in the textarea so the caret survives the click
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(suggestion);
+          }}
+          onMouseEnter={() => onHover(i)}
+          className={`w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm transition-all ${
+            i === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700'
+          }`}
+        >
+          {suggestion.preview && <span className="text-lg leading-none">{suggestion.preview}</span>}
+          <span className="font-bold truncate">{suggestion.label}</span>
+          {suggestion.detail && <span className="ml-auto text-xs text-slate-400 truncate">{suggestion.detail}</span>}
+        </button>
+      ))}
+    </div>
+  );
+};
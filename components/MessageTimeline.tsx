@@ -0,0 +1,132 @@
+
+import React, { useEffect, useRef } from 'react';
+import { RefreshCw, User, ChevronUp, MessageSquare, MessageCircle, Paperclip } from 'lucide-react';
+import { SlackMessage } from '../types';
+
+interface MessageTimelineProps {
+  messages: SlackMessage[];
+  isLoading: boolean;
+  hasOlder: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  onOpenThread?: (message: SlackMessage) => void;
+  compact?: boolean;
+}
+
+export const formatTs = (ts: string) =>
+  new Date(parseFloat(ts) * 1000).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Distance from the bottom (px) within which new messages keep the view pinned
+const STICKY_THRESHOLD = 120;
+
+export const MessageTimeline: React.FC<MessageTimelineProps> = ({
+  messages,
+  isLoading,
+  hasOlder,
+  isLoadingOlder,
+  onLoadOlder,
+  onOpenThread,
+  compact = false,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+  const lastTs = messages.length ? messages[messages.length - 1].ts : null;
+
+  // Follow new arrivals only when the reader is already at the bottom
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [lastTs]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < STICKY_THRESHOLD;
+  };
+
+  if (isLoading && messages.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <RefreshCw className="w-8 h-8 text-slate-300 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} onScroll={handleScroll} className={`flex-1 overflow-y-auto space-y-2 ${compact ? 'px-4 py-6' : 'px-12 py-8'}`}>
+      {hasOlder && (
+        <div className="flex justify-center pb-4">
+          <button
+            onClick={onLoadOlder}
+            disabled={isLoadingOlder}
+            className="flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm disabled:opacity-50"
+          >
+            {isLoadingOlder ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <ChevronUp className="w-3.5 h-3.5" />}
+            Load Older
+          </button>
+        </div>
+      )}
+
+      {messages.length === 0 && (
+        <div className="h-full flex flex-col items-center justify-center gap-4 text-slate-300">
+          <MessageSquare className="w-12 h-12 opacity-40" />
+          <p className="text-[10px] font-black uppercase tracking-widest">No messages yet</p>
+        </div>
+      )}
+
+      {messages.map((msg) => (
+        <div key={msg.ts} className="flex gap-4 p-4 rounded-2xl hover:bg-white transition-colors group">
+          <div className="w-10 h-10 rounded-xl bg-white border border-slate-100 flex items-center justify-center shrink-0 shadow-sm">
+            <User className="w-5 h-5 text-slate-400" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-baseline gap-3">
+              <span className="text-sm font-black text-slate-900 tracking-tight">
+                {msg.username || msg.user || msg.bot_id || 'unknown'}
+              </span>
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{formatTs(msg.ts)}</span>
+              {msg.edited && <span className="text-[10px] font-bold text-slate-300">(edited)</span>}
+            </div>
+            <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap break-words mt-1">{msg.text}</p>
+            {msg.files && msg.files.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {msg.files.map(file => (
+                  <a
+                    key={file.id}
+                    href={file.permalink}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-100 rounded-lg text-[11px] font-bold text-slate-600 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                  >
+                    <Paperclip className="w-3 h-3" />
+                    {file.name}
+                  </a>
+                ))}
+              </div>
+            )}
+            {onOpenThread && (
+              <button
+                onClick={() => onOpenThread(msg)}
+                className={`mt-2 flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700 transition-all ${
+                  msg.reply_count ? '' : 'opacity-0 group-hover:opacity-100'
+                }`}
+              >
+                <MessageCircle className="w-3.5 h-3.5" />
+                {msg.reply_count
+                  ? `${msg.reply_count} ${msg.reply_count === 1 ? 'reply' : 'replies'}`
+                  : 'Reply in thread'}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { renderEmoji } from '../services/emoji';
+
+// Order matters: code spans win over emphasis so `*not bold*` stays literal
+const INLINE_PATTERN = /(`[^`\n]+`|<[^>\n]+>|\*[^*\n]+\*|_[^_\n]+_|~[^~\n]+~)/g;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Shows `<@U123>` as `@name`, `<#C123>` as `#name` and `<!here>` as `@here` when the ID is known
+const mentionLabel = (target: string, label: string | undefined, names: Record<string, string>) => {
+  if (label) return target.startsWith('#') ? `#${label}` : label;
+  const sigil = target[0];
+  const id = target.slice(1).split('^')[0];
+  if (sigil === '@' || sigil === '#') return names[id] ? `${sigil}${names[id]}` : target;
+  if (sigil === '!') return `@${id}`;
+  return target;
+};
+
+const renderInline = (text: string, keyPrefix: string, names: Record<string, string>): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (!part) return null;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={key} className="px-1.5 py-0.5 bg-slate-100 border border-slate-200 rounded text-[0.85em] font-mono text-rose-600">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith('<') && part.endsWith('>')) {
+      const [target, label] = part.slice(1, -1).split('|');
+      // Mentions (<@U…>, <#C…>, <!here>) and non-web schemes render as inert text
+      if (!/^(https?:|mailto:)/i.test(target)) {
+        return <span key={key} className="px-1 bg-indigo-50 text-indigo-700 rounded font-semibold">{mentionLabel(target, label, names)}</span>;
+      }
+      return <a key={key} href={target} target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">{label || target}</a>;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <strong key={key}>{renderInline(part.slice(1, -1), key, names)}</strong>;
+    }
+    if (part.startsWith('_') && part.endsWith('_') && part.length > 2) {
+      return <em key={key}>{renderInline(part.slice(1, -1), key, names)}</em>;
+    }
+    if (part.startsWith('~') && part.endsWith('~') && part.length > 2) {
+      return <s key={key}>{renderInline(part.slice(1, -1), key, names)}</s>;
+    }
+    return <React.Fragment key={key}>{renderEmoji(part)}</React.Fragment>;
+  });
+
+// List items and quotes get their own indented line; everything else keeps its newlines as typed
+const renderLines = (text: string, keyPrefix: string, names: Record<string, string>): React.ReactNode[] =>
+  text.split('\n').map((line, i, lines) => {
+    const key = `${keyPrefix}-l${i}`;
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const marker = line.trim().match(/^\d+[.)]/)?.[0] || '•';
+      return (
+        <span key={key} className="flex gap-2 pl-2">
+          <span className="text-slate-400 shrink-0">{marker}</span>
+          <span>{renderInline(line.replace(LIST_ITEM_PATTERN, ''), key, names)}</span>
+        </span>
+      );
+    }
+    if (line.startsWith('>')) {
+      return <span key={key} className="block pl-3 border-l-4 border-slate-200 text-slate-500">{renderInline(line.replace(/^>\s?/, ''), key, names)}</span>;
+    }
+    return (
+      <React.Fragment key={key}>
+        {renderInline(line, key, names)}
+        {i < lines.length - 1 && !LIST_ITEM_PATTERN.test(lines[i + 1]) && !lines[i + 1].startsWith('>') && '\n'}
+      </React.Fragment>
+    );
+  });
+
+/**
+ * Renders Slack mrkdwn into React elements. Covers the subset Slack itself renders in messages.
+ * `names` maps user and channel IDs to display names for mention tokens.
+ */
+export const Mrkdwn: React.FC<{ text: string; className?: string; names?: Record<string, string> }> = ({ text, className = '', names = {} }) => {
+  // Fenced code blocks are split out first since nothing inside them is formatted
+  const segments = text.split(/(```[\s\S]*?```)/g);
+
+  return (
+    <div className={`whitespace-pre-wrap break-words ${className}`}>
+      {segments.map((segment, i) => {
+        if (segment.startsWith('```') && segment.endsWith('```') && segment.length >= 6) {
+          return (
+            <pre key={i} className="my-1 p-3 bg-slate-50 border border-slate-200 rounded-lg text-[0.85em] font-mono overflow-x-auto">
+              {segment.slice(3, -3).replace(/^\n/, '')}
+            </pre>
+          );
+        }
+        return <React.Fragment key={i}>{renderLines(segment, String(i), names)}</React.Fragment>;
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+
+import React from 'react';
+import { Inbox, RefreshCw, Trash2, Hash, WifiOff, AlertCircle, Clock } from 'lucide-react';
+import { OutboxEntry } from '../types';
+
+interface OutboxPanelProps {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  onRetry: (entry: OutboxEntry) => void;
+  onDiscard: (entry: OutboxEntry) => void;
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const describeStatus = (entry: OutboxEntry, isOnline: boolean) => {
+  switch (entry.status) {
+    case 'sending': return { icon: RefreshCw, text: 'Sending…', className: 'text-indigo-300' };
+    case 'failed': return { icon: AlertCircle, text: `Failed: ${entry.lastError}`, className: 'text-rose-400' };
+    default: return isOnline
+      ? { icon: Clock, text: `Retrying at ${formatTime(entry.nextAttemptAt)}`, className: 'text-amber-300' }
+      : { icon: WifiOff, text: 'Waiting for connection', className: 'text-amber-300' };
+  }
+};
+
+export const OutboxPanel: React.FC<OutboxPanelProps> = ({ entries, isOnline, onRetry, onDiscard }) => (
+  <div>
+    <div className="flex items-center justify-between mb-5 px-3">
+      <h2 className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">
+        <Inbox className="w-3.5 h-3.5" />
+        Outbox
+      </h2>
+      {!isOnline && (
+        <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-amber-400">
+          <WifiOff className="w-3 h-3" />
+          Offline
+        </span>
+      )}
+    </div>
+
+    {entries.length === 0 ? (
+      <div className="px-4 py-6 text-center bg-slate-800/20 rounded-2xl border border-dashed border-slate-700">
+        <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">All Delivered</p>
+      </div>
+    ) : (
+      <div className="space-y-1">
+        {entries.map(entry => {
+          const status = describeStatus(entry, isOnline);
+          return (
+            <div key={entry.id} className="px-4 py-3 rounded-xl bg-slate-800/40 hover:bg-slate-800 transition-all group">
+              <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <Hash className="w-3 h-3" />
+                {entry.channelName}
+                {entry.attempts > 0 && <span className="ml-auto normal-case tracking-normal font-bold text-slate-500">{entry.attempts} {entry.attempts === 1 ? 'try' : 'tries'}</span>}
+              </p>
+              <p className="text-xs text-slate-300 truncate mt-1">{entry.text || '(blocks only)'}</p>
+              <p className={`flex items-center gap-1.5 text-[10px] font-bold mt-1 ${status.className}`}>
+                <status.icon className={`w-3 h-3 shrink-0 ${entry.status === 'sending' ? 'animate-spin' : ''}`} />
+                <span className="truncate">{status.text}</span>
+              </p>
+              <div className="flex gap-3 mt-2 opacity-0 group-hover:opacity-100 transition-all">
+                <button
+                  onClick={() => onRetry(entry)}
+                  disabled={entry.status === 'sending' || !isOnline}
+                  className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white disabled:opacity-40"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Retry Now
+                </button>
+                <button
+                  onClick={() => onDiscard(entry)}
+                  disabled={entry.status === 'sending'}
+                  className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-400 disabled:opacity-40"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Discard
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
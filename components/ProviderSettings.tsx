@@ -0,0 +1,86 @@
+
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { LLMSettings } from '../types';
+import { PROVIDER_OPTIONS, defaultModelFor } from '../services/llmProvider';
+
+interface ProviderSettingsProps {
+  settings: LLMSettings;
+  isConfigured: boolean;
+  onChange: (settings: LLMSettings) => void;
+}
+
+const fieldClass = 'w-full px-6 py-4 border-2 border-slate-50 rounded-[1.5rem] bg-slate-50 focus:bg-white focus:ring-8 focus:ring-indigo-50 focus:border-indigo-500 transition-all outline-none text-sm font-mono shadow-sm';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest px-1';
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, isConfigured, onChange }) => {
+  const update = (patch: Partial<LLMSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between px-1">
+        <label className={`${labelClass} flex items-center gap-2`}>
+          <Cpu className="w-3.5 h-3.5" />
+          AI Provider
+        </label>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${isConfigured ? 'text-emerald-600' : 'text-amber-600'}`}>
+          {isConfigured ? 'Ready' : 'Not configured'}
+        </span>
+      </div>
+
+      <div className="flex gap-1 bg-slate-50 p-1 rounded-2xl border border-slate-100">
+        {PROVIDER_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => update({ provider: option.id, model: '' })}
+            className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+              settings.provider === option.id ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400 hover:text-slate-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'openai' && (
+        <div className="space-y-2">
+          <label className={labelClass}>Base URL</label>
+          <input
+            value={settings.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={fieldClass}
+          />
+        </div>
+      )}
+
+      {settings.provider !== 'mock' ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Model</label>
+            <input
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder={defaultModelFor(settings.provider)}
+              className={fieldClass}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>API Key</label>
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              placeholder={settings.provider === 'gemini' ? 'Build-time key' : 'Optional'}
+              className={fieldClass}
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-[11px] font-bold text-slate-500 px-1">
+          Returns canned, deterministic output without any network calls. Useful for development and demos.
+        </p>
+      )}
+    </div>
+  );
+};
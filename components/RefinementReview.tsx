@@ -0,0 +1,170 @@
+
+import React, { useMemo, useState } from 'react';
+import { Sparkles, Check, X, CheckCheck, Square, AlertTriangle } from 'lucide-react';
+import { DiffSegment, diffWords, applyDiff, changeIds } from '../services/wordDiff';
+import { splitCandidates } from '../services/candidates';
+import { refinementWarnings } from '../services/promptSafety';
+
+interface RefinementPreviewProps {
+  text: string;
+  profileName: string;
+  onCancel: () => void;
+}
+
+/**
+ * Live view of a refinement while it streams in, split into the candidates received so far.
+ */
+export const RefinementPreview: React.FC<RefinementPreviewProps> = ({ text, profileName, onCancel }) => {
+  const candidates = splitCandidates(text);
+
+  return (
+    <div className="bg-slate-900 text-white rounded-[2rem] p-8 space-y-6 shadow-2xl animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Sparkles className="w-5 h-5 text-indigo-400 animate-pulse" />
+          <span className="text-[11px] font-black uppercase tracking-[0.3em]">Refining · {profileName}</span>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-5 py-3 rounded-xl bg-white/10 text-[10px] font-black uppercase tracking-widest hover:bg-rose-500 transition-all"
+        >
+          <Square className="w-3.5 h-3.5 fill-current" />
+          Stop
+        </button>
+      </div>
+      <div className="space-y-3 max-h-64 overflow-y-auto">
+        {candidates.length === 0 ? (
+          <p className="text-sm font-bold text-slate-500">Waiting for the first words...</p>
+        ) : candidates.map((candidate, i) => (
+          <div key={i} className="p-5 bg-slate-800/60 rounded-2xl space-y-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Option {i + 1}</span>
+            <p className="text-lg leading-relaxed text-slate-200 whitespace-pre-wrap break-words">{candidate}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface RefinementReviewProps {
+  original: string;
+  candidates: string[];
+  profileName: string;
+  onApply: (text: string) => void;
+  onDismiss: () => void;
+}
+
+export const RefinementReview: React.FC<RefinementReviewProps> = ({ original, candidates, profileName, onApply, onDismiss }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const segments: DiffSegment[] = useMemo(() => diffWords(original, candidates[activeIndex] || original), [original, candidates, activeIndex]);
+  const allIds: number[] = useMemo(() => changeIds(segments), [segments]);
+  // Every change starts accepted; clicking one reverts it to the draft wording
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+
+  const accepted = new Set<number>(allIds.filter(id => !rejected.has(id)));
+  const selectedText = applyDiff(segments, accepted);
+  const warnings = refinementWarnings(original, selectedText);
+
+  const selectCandidate = (index: number) => {
+    setActiveIndex(index);
+    setRejected(new Set());
+  };
+
+  const toggle = (id: number) => {
+    setRejected(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-slate-900 text-white rounded-[2rem] p-8 space-y-6 shadow-2xl animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Sparkles className="w-5 h-5 text-indigo-400" />
+          <span className="text-[11px] font-black uppercase tracking-[0.3em]">Review Refinement · {profileName}</span>
+        </div>
+        <div className="flex gap-1 bg-slate-800 p-1 rounded-xl">
+          {candidates.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => selectCandidate(i)}
+              className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                activeIndex === i ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              Option {i + 1}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 bg-slate-800/60 rounded-2xl text-lg leading-relaxed whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+        {allIds.length === 0 ? (
+          <span className="text-slate-400">{original} <em className="text-xs not-italic font-bold uppercase tracking-widest ml-2">(no changes)</em></span>
+        ) : segments.map((segment, i) => {
+          if (segment.type === 'equal') return <span key={i} className="text-slate-300">{segment.text}</span>;
+          const isAccepted = accepted.has(segment.id);
+          return (
+            <button
+              key={i}
+              onClick={() => toggle(segment.id)}
+              title={isAccepted ? 'Click to keep your original wording' : 'Click to accept this change'}
+              className="inline rounded hover:ring-2 hover:ring-indigo-400 transition-all"
+            >
+              {segment.removed && (
+                <span className={isAccepted ? 'line-through text-rose-400/60' : 'text-amber-200 bg-amber-500/20 rounded px-0.5'}>{segment.removed}</span>
+              )}
+              {segment.added && (
+                <span className={isAccepted ? 'text-emerald-300 bg-emerald-500/20 rounded px-0.5' : 'line-through text-slate-500'}>{segment.added}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="space-y-1.5 px-5 py-4 bg-amber-500/10 border border-amber-500/30 rounded-2xl">
+          {warnings.map(warning => (
+            <p key={warning} className="flex items-start gap-2 text-xs font-bold text-amber-200">
+              <AlertTriangle className="w-4 h-4 shrink-0 text-amber-400" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+          {accepted.size} of {allIds.length} changes selected
+        </p>
+        <div className="flex gap-3">
+          <button
+            onClick={onDismiss}
+            className="flex items-center gap-2 px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            <X className="w-4 h-4" />
+            Reject
+          </button>
+          <button
+            onClick={() => onApply(selectedText)}
+            disabled={allIds.length === 0}
+            className="flex items-center gap-2 px-5 py-3 rounded-xl bg-white/10 text-[10px] font-black uppercase tracking-widest hover:bg-white/20 transition-all disabled:opacity-40"
+          >
+            <Check className="w-4 h-4" />
+            Apply Selected
+          </button>
+          <button
+            onClick={() => onApply(candidates[activeIndex])}
+            className="flex items-center gap-2 px-5 py-3 rounded-xl bg-indigo-600 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition-all"
+          >
+            <CheckCheck className="w-4 h-4" />
+            Accept All
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
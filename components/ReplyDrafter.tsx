@@ -0,0 +1,63 @@
+
+import React, { useState } from 'react';
+import { Wand2, X, RefreshCw } from 'lucide-react';
+import { StyleProfile } from '../types';
+
+interface ReplyDrafterProps {
+  profiles: StyleProfile[];
+  defaultProfileId: string;
+  contextLabel: string;
+  isDrafting: boolean;
+  onDraft: (instruction: string, profile: StyleProfile) => void;
+  onClose: () => void;
+}
+
+export const ReplyDrafter: React.FC<ReplyDrafterProps> = ({ profiles, defaultProfileId, contextLabel, isDrafting, onDraft, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [profileId, setProfileId] = useState(defaultProfileId);
+  const profile = profiles.find(p => p.id === profileId) || profiles[0];
+
+  const submit = () => {
+    if (!isDrafting && profile) onDraft(instruction, profile);
+  };
+
+  return (
+    <div className="flex items-center gap-3 bg-white border-2 border-indigo-100 rounded-[2rem] p-3 pl-6 animate-in fade-in slide-in-from-bottom-2">
+      <Wand2 className="w-4 h-4 text-indigo-500 shrink-0" />
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">Reply to {contextLabel}</span>
+      <input
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') submit();
+        }}
+        disabled={isDrafting}
+        placeholder='Optional: "decline politely, propose Thursday"'
+        className="flex-1 min-w-0 px-4 py-2.5 bg-slate-50 rounded-xl text-sm outline-none focus:bg-white focus:ring-2 focus:ring-indigo-100 transition-all disabled:opacity-60"
+      />
+      <select
+        value={profile?.id}
+        onChange={(e) => setProfileId(e.target.value)}
+        disabled={isDrafting}
+        className="px-3 py-2.5 bg-slate-50 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 outline-none"
+      >
+        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <button
+        onClick={submit}
+        disabled={isDrafting}
+        className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+      >
+        {isDrafting ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+        Draft
+      </button>
+      <button
+        onClick={onClose}
+        className="p-2 text-slate-400 hover:text-slate-700 rounded-xl transition-all"
+        title="Close"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+
+import React from 'react';
+import { CalendarClock, Globe, X } from 'lucide-react';
+
+interface SchedulePickerProps {
+  value: string;
+  isEditing: boolean;
+  onChange: (value: string) => void;
+  onClose: () => void;
+}
+
+// Slack rejects post_at values further out than this
+export const MAX_SCHEDULE_DAYS = 120;
+
+/**
+ * Formats a unix timestamp (seconds) as the local-time string a datetime-local input expects.
+ */
+export const toDateTimeInput = (seconds: number) => {
+  const date = new Date(seconds * 1000);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+/**
+ * Converts a datetime-local value to unix seconds, or returns an error message when
+ * Slack would refuse the time.
+ */
+export const parseScheduleInput = (value: string): { postAt: number | null; error: string | null } => {
+  const ms = new Date(value).getTime();
+  if (!value || Number.isNaN(ms)) return { postAt: null, error: 'Pick a date and time to schedule.' };
+  if (ms <= Date.now()) return { postAt: null, error: 'Scheduled time must be in the future.' };
+  if (ms > Date.now() + MAX_SCHEDULE_DAYS * 86400000) {
+    return { postAt: null, error: `Slack only schedules up to ${MAX_SCHEDULE_DAYS} days ahead.` };
+  }
+  return { postAt: Math.floor(ms / 1000), error: null };
+};
+
+const describeTimezone = () => {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const offset = -new Date().getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${zone} (UTC${sign}${hours}:${minutes})`;
+};
+
+export const SchedulePicker: React.FC<SchedulePickerProps> = ({ value, isEditing, onChange, onClose }) => {
+  const { error } = parseScheduleInput(value);
+
+  return (
+    <div className="flex items-center justify-between gap-6 px-6 py-4 bg-amber-50/60 border-2 border-amber-100 rounded-[1.5rem] animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2 text-[11px] font-black text-amber-800 uppercase tracking-widest">
+          <CalendarClock className="w-4 h-4" />
+          {isEditing ? 'Reschedule for' : 'Send later'}
+        </div>
+        <input
+          type="datetime-local"
+          value={value}
+          min={toDateTimeInput(Date.now() / 1000)}
+          onChange={(e) => onChange(e.target.value)}
+          className="px-4 py-2 border-2 border-amber-100 rounded-xl bg-white focus:border-amber-500 outline-none text-sm font-bold text-slate-700"
+        />
+        <span className="flex items-center gap-1.5 text-[10px] font-bold text-amber-700 uppercase tracking-widest">
+          <Globe className="w-3.5 h-3.5" />
+          {describeTimezone()}
+        </span>
+      </div>
+      <div className="flex items-center gap-4">
+        {value && error && <span className="text-[11px] font-bold text-rose-600">{error}</span>}
+        <button
+          onClick={onClose}
+          className="p-1.5 hover:bg-amber-100 rounded-lg text-amber-500 hover:text-amber-800 transition-all"
+          title={isEditing ? 'Stop editing' : 'Send immediately instead'}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { Clock, RefreshCw, Pencil, XCircle, Hash } from 'lucide-react';
+import { SlackChannel, SlackScheduledMessage } from '../types';
+
+interface ScheduledListProps {
+  scheduled: SlackScheduledMessage[];
+  channels: SlackChannel[];
+  isLoading: boolean;
+  busyId: string | null;
+  onRefresh: () => void;
+  onEdit: (message: SlackScheduledMessage) => void;
+  onCancel: (message: SlackScheduledMessage) => void;
+}
+
+export const formatPostAt = (postAt: number) =>
+  new Date(postAt * 1000).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ScheduledList: React.FC<ScheduledListProps> = ({
+  scheduled,
+  channels,
+  isLoading,
+  busyId,
+  onRefresh,
+  onEdit,
+  onCancel,
+}) => {
+  const channelName = (id: string) => channels.find(c => c.id === id)?.name || id;
+
+  const byChannel: Record<string, SlackScheduledMessage[]> = {};
+  scheduled.forEach((msg: SlackScheduledMessage) => {
+    (byChannel[msg.channel_id] ||= []).push(msg);
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-5 px-3">
+        <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Scheduled</h2>
+        <button
+          onClick={onRefresh}
+          className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition-all"
+          title="Refresh Scheduled Messages"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {scheduled.length === 0 ? (
+        <div className="px-4 py-6 text-center bg-slate-800/20 rounded-2xl border border-dashed border-slate-700">
+          <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Nothing Pending</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {Object.entries(byChannel).map(([channelId, messages]) => (
+            <div key={channelId} className="space-y-1">
+              <p className="flex items-center gap-1.5 px-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <Hash className="w-3 h-3" />
+                {channelName(channelId)}
+              </p>
+              {messages.map(msg => (
+                <div key={msg.id} className="px-4 py-3 rounded-xl bg-slate-800/40 hover:bg-slate-800 transition-all group">
+                  <p className="flex items-center gap-1.5 text-[10px] font-black text-indigo-300 uppercase tracking-widest">
+                    <Clock className="w-3 h-3" />
+                    {formatPostAt(msg.post_at)}
+                  </p>
+                  <p className="text-xs text-slate-300 truncate mt-1">{msg.text || '(no text)'}</p>
+                  <div className="flex gap-3 mt-2 opacity-0 group-hover:opacity-100 transition-all">
+                    <button
+                      onClick={() => onEdit(msg)}
+                      disabled={busyId === msg.id}
+                      className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white disabled:opacity-40"
+                    >
+                      <Pencil className="w-3 h-3" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => onCancel(msg)}
+                      disabled={busyId === msg.id}
+                      className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-400 disabled:opacity-40"
+                    >
+                      <XCircle className="w-3 h-3" />
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
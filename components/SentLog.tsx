@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { History, Pencil, Trash2, RefreshCw, Hash, MessageCircle, AlertTriangle } from 'lucide-react';
+import { SentLogEntry, SlackChannel } from '../types';
+import { formatTs } from './MessageTimeline';
+
+interface SentLogProps {
+  entries: SentLogEntry[];
+  channels: SlackChannel[];
+  busyTs: string | null;
+  isReconciling: boolean;
+  onEdit: (entry: SentLogEntry) => void;
+  onRetract: (entry: SentLogEntry) => void;
+  onReconcile: () => void;
+}
+
+export const SentLog: React.FC<SentLogProps> = ({
+  entries,
+  channels,
+  busyTs,
+  isReconciling,
+  onEdit,
+  onRetract,
+  onReconcile,
+}) => {
+  const channelName = (id: string) => channels.find(c => c.id === id)?.name || id;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-5 px-3">
+        <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Sent</h2>
+        <button
+          onClick={onReconcile}
+          disabled={isReconciling || entries.length === 0}
+          className="p-1.5 hover:text-white hover:bg-slate-800 rounded-lg transition-all disabled:opacity-40"
+          title="Check sent messages still exist in Slack"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isReconciling ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="px-4 py-6 text-center bg-slate-800/20 rounded-2xl border border-dashed border-slate-700">
+          <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Nothing Sent Yet</p>
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {entries.map(entry => (
+            <div key={`${entry.channelId}-${entry.ts}`} className="px-4 py-3 rounded-xl bg-slate-800/40 hover:bg-slate-800 transition-all group">
+              <p className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <Hash className="w-3 h-3" />
+                <span className="truncate">{channelName(entry.channelId)}</span>
+                {entry.threadTs && <MessageCircle className="w-3 h-3 text-indigo-300" />}
+                <span className="ml-auto flex items-center gap-1 shrink-0 text-slate-500">
+                  <History className="w-3 h-3" />
+                  {formatTs(entry.ts)}
+                </span>
+              </p>
+              <p className="text-xs text-slate-300 truncate mt-1">{entry.text}</p>
+              {entry.staleError && (
+                <p className="flex items-center gap-1.5 text-[10px] font-bold text-amber-300 mt-1" title="The channel couldn't be reached; the message may still exist">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  <span className="truncate">Stale: {entry.staleError}</span>
+                </p>
+              )}
+              <div className="flex gap-3 mt-2 opacity-0 group-hover:opacity-100 transition-all">
+                <button
+                  onClick={() => onEdit(entry)}
+                  disabled={busyTs === entry.ts}
+                  className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white disabled:opacity-40"
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => onRetract(entry)}
+                  disabled={busyTs === entry.ts}
+                  className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-400 disabled:opacity-40"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Retract
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+
+import React, { useState } from 'react';
+import { Palette, Plus, Trash2, Copy, Star, Lock } from 'lucide-react';
+import { EmojiPolicy, StyleProfile } from '../types';
+import { createProfile } from '../services/styleProfiles';
+
+interface StyleProfileManagerProps {
+  profiles: StyleProfile[];
+  channelName: string | null;
+  channelDefaultId: string | undefined;
+  onSave: (profile: StyleProfile) => void;
+  onDelete: (id: string) => void;
+  onSetChannelDefault: (id: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-5 py-3 border-2 border-slate-100 rounded-2xl bg-slate-50 focus:bg-white focus:border-indigo-500 outline-none text-sm transition-all disabled:opacity-60';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest px-1';
+
+const EMOJI_OPTIONS: { value: EmojiPolicy; label: string }[] = [
+  { value: 'none', label: 'No emoji' },
+  { value: 'sparing', label: 'Sparing' },
+  { value: 'expressive', label: 'Expressive' },
+];
+
+export const StyleProfileManager: React.FC<StyleProfileManagerProps> = ({
+  profiles,
+  channelName,
+  channelDefaultId,
+  onSave,
+  onDelete,
+  onSetChannelDefault,
+  onClose,
+}) => {
+  const [activeId, setActiveId] = useState(channelDefaultId || profiles[0]?.id);
+  const [draft, setDraft] = useState<StyleProfile | null>(() => profiles.find(p => p.id === activeId) || null);
+  // List fields are edited as raw text so blank lines and trailing newlines survive typing
+  const [examplesText, setExamplesText] = useState(draft?.examples.join('\n\n') || '');
+  const [bannedText, setBannedText] = useState(draft?.bannedPhrases.join('\n') || '');
+
+  const select = (profile: StyleProfile) => {
+    setActiveId(profile.id);
+    setDraft(profile);
+    setExamplesText(profile.examples.join('\n\n'));
+    setBannedText(profile.bannedPhrases.join('\n'));
+  };
+
+  const addProfile = (base?: StyleProfile) => {
+    const profile = base
+      ? { ...base, id: createProfile().id, name: `${base.name} Copy`, builtIn: undefined }
+      : createProfile();
+    onSave(profile);
+    select(profile);
+  };
+
+  const update = (patch: Partial<StyleProfile>) => {
+    if (!draft || draft.builtIn) return;
+    const next = { ...draft, ...patch };
+    setDraft(next);
+    onSave(next);
+  };
+
+  const splitLines = (value: string) => value.split('\n').map(v => v.trim()).filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/90 backdrop-blur-xl z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-4xl overflow-hidden animate-in zoom-in-95 duration-500 flex max-h-[90vh]">
+        <div className="w-72 bg-slate-50 border-r border-slate-100 p-8 space-y-4 overflow-y-auto shrink-0">
+          <div className="flex items-center gap-3 mb-4">
+            <Palette className="w-6 h-6 text-indigo-500" />
+            <h2 className="text-xl font-black text-slate-900 tracking-tighter uppercase italic">Styles</h2>
+          </div>
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => select(profile)}
+              className={`w-full flex items-center gap-2 px-4 py-3 rounded-xl text-left text-sm font-bold transition-all ${
+                activeId === profile.id ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-white'
+              }`}
+            >
+              {profile.builtIn && <Lock className="w-3.5 h-3.5 opacity-50 shrink-0" />}
+              <span className="truncate">{profile.name}</span>
+              {channelDefaultId === profile.id && <Star className="w-3.5 h-3.5 ml-auto text-amber-400 fill-amber-400 shrink-0" />}
+            </button>
+          ))}
+          <button
+            onClick={() => addProfile()}
+            className="w-full flex items-center gap-2 px-4 py-3 rounded-xl border-2 border-dashed border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            New Style
+          </button>
+        </div>
+
+        <div className="flex-1 p-10 space-y-6 overflow-y-auto">
+          {draft ? (
+            <>
+              {draft.builtIn && (
+                <p className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+                  <Lock className="w-3.5 h-3.5" />
+                  Built-in styles are read-only. Duplicate one to customise it.
+                </p>
+              )}
+              <div className="space-y-2">
+                <label className={labelClass}>Name</label>
+                <input value={draft.name} disabled={draft.builtIn} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Instructions</label>
+                <textarea
+                  value={draft.instructions}
+                  disabled={draft.builtIn}
+                  onChange={(e) => update({ instructions: e.target.value })}
+                  rows={3}
+                  placeholder="e.g. Crisp executive summary, lead with the outcome, no jargon."
+                  className={`${fieldClass} resize-none`}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Example messages (separate with a blank line)</label>
+                <textarea
+                  value={examplesText}
+                  disabled={draft.builtIn}
+                  onChange={(e) => {
+                    setExamplesText(e.target.value);
+                    update({ examples: e.target.value.split(/\n\s*\n/).map(v => v.trim()).filter(Boolean) });
+                  }}
+                  rows={4}
+                  className={`${fieldClass} resize-none`}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label className={labelClass}>Banned phrases (one per line)</label>
+                  <textarea
+                    value={bannedText}
+                    disabled={draft.builtIn}
+                    onChange={(e) => {
+                      setBannedText(e.target.value);
+                      update({ bannedPhrases: splitLines(e.target.value) });
+                    }}
+                    rows={3}
+                    className={`${fieldClass} resize-none`}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Emoji policy</label>
+                  <select
+                    value={draft.emojiPolicy}
+                    disabled={draft.builtIn}
+                    onChange={(e) => update({ emojiPolicy: e.target.value as EmojiPolicy })}
+                    className={fieldClass}
+                  >
+                    {EMOJI_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3 pt-2">
+                {channelName && (
+                  <button
+                    onClick={() => onSetChannelDefault(draft.id)}
+                    disabled={channelDefaultId === draft.id}
+                    className="flex items-center gap-2 px-5 py-3 rounded-xl bg-amber-50 text-amber-700 text-[10px] font-black uppercase tracking-widest hover:bg-amber-100 transition-all disabled:opacity-50"
+                  >
+                    <Star className="w-3.5 h-3.5" />
+                    {channelDefaultId === draft.id ? `Default for #${channelName}` : `Make default for #${channelName}`}
+                  </button>
+                )}
+                <button
+                  onClick={() => addProfile(draft)}
+                  className="flex items-center gap-2 px-5 py-3 rounded-xl bg-slate-50 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all"
+                >
+                  <Copy className="w-3.5 h-3.5" />
+                  Duplicate
+                </button>
+                {!draft.builtIn && (
+                  <button
+                    onClick={() => {
+                      onDelete(draft.id);
+                      select(profiles.find(p => p.id !== draft.id) || profiles[0]);
+                    }}
+                    className="flex items-center gap-2 px-5 py-3 rounded-xl text-rose-500 text-[10px] font-black uppercase tracking-widest hover:bg-rose-50 transition-all"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400 font-bold">Select a style to edit.</p>
+          )}
+
+          <div className="pt-6 border-t border-slate-100">
+            <button
+              onClick={onClose}
+              className="w-full py-4 px-8 bg-slate-900 hover:bg-indigo-600 text-white rounded-[1.5rem] font-black shadow-2xl shadow-slate-200 transition-all active:scale-95 uppercase text-xs tracking-widest"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
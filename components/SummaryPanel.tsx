@@ -0,0 +1,118 @@
+
+import React from 'react';
+import { FileText, X, Send, RefreshCw, AlertCircle } from 'lucide-react';
+import { ConversationSummary, SummaryTarget } from '../types';
+import { SUMMARY_WINDOWS, formatWindow, isEmptySummary, summarySections } from '../services/summaries';
+
+interface SummaryPanelProps {
+  target: SummaryTarget;
+  summary: ConversationSummary | null;
+  progress: { completed: number; total: number } | null;
+  messageCount: number | null;
+  error: string | null;
+  isPosting: boolean;
+  onChangeWindow: (hours: number) => void;
+  onPost: () => void;
+  onClose: () => void;
+}
+
+export const SummaryPanel: React.FC<SummaryPanelProps> = ({
+  target,
+  summary,
+  progress,
+  messageCount,
+  error,
+  isPosting,
+  onChangeWindow,
+  onPost,
+  onClose,
+}) => {
+  const isLoading = !summary && !error;
+  const hasContent = !!summary && !isEmptySummary(summary);
+
+  return (
+    <div className="w-96 border-l border-slate-100 bg-slate-50 flex flex-col shrink-0 animate-in slide-in-from-right-8 fade-in duration-300">
+      <div className="h-24 px-6 border-b bg-white flex items-center justify-between shrink-0">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-50 rounded-xl flex items-center justify-center">
+            <FileText className="w-5 h-5 text-indigo-500" />
+          </div>
+          <div>
+            <h3 className="font-black text-slate-900 tracking-tight">{target.threadTs ? 'Thread Summary' : 'Catch Up'}</h3>
+            <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">
+              #{target.channelName}{messageCount !== null && ` · ${messageCount} messages`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-xl transition-all text-slate-400 hover:text-slate-700"
+          title="Close Summary"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!target.threadTs && (
+        <div className="flex gap-1 bg-white p-1 m-6 mb-0 rounded-2xl border border-slate-100">
+          {SUMMARY_WINDOWS.map(hours => (
+            <button
+              key={hours}
+              onClick={() => onChangeWindow(hours)}
+              disabled={isLoading}
+              className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:cursor-not-allowed ${
+                target.sinceHours === hours ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400 hover:text-slate-700'
+              }`}
+            >
+              Last {formatWindow(hours)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {error ? (
+          <div className="flex items-start gap-2 bg-rose-50 border-2 border-rose-100 text-rose-700 px-5 py-4 rounded-2xl text-xs font-bold">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        ) : isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16 gap-4 text-slate-400">
+            <RefreshCw className="w-8 h-8 animate-spin" />
+            <p className="text-[10px] font-black uppercase tracking-widest">
+              {!progress ? 'Reading messages...'
+                : progress.total > 1 ? `Summarizing part ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+                : 'Summarizing...'}
+            </p>
+          </div>
+        ) : !hasContent ? (
+          <p className="text-sm text-slate-400 font-bold text-center py-16">Nothing to summarize in this window.</p>
+        ) : summarySections(summary!).filter(section => section.items.length > 0).map(section => (
+          <div key={section.key} className="space-y-3">
+            <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{section.title}</h4>
+            <ul className="space-y-2">
+              {section.items.map((item, i) => (
+                <li key={i} className="bg-white border border-slate-100 rounded-2xl px-4 py-3 text-sm text-slate-700 leading-relaxed">
+                  {item}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {hasContent && (
+        <div className="p-6 border-t border-slate-100 bg-white shrink-0">
+          <button
+            onClick={onPost}
+            disabled={isPosting}
+            className="w-full flex items-center justify-center gap-3 py-4 bg-slate-900 hover:bg-indigo-600 disabled:bg-slate-200 text-white rounded-[1.5rem] font-black transition-all active:scale-95 uppercase text-xs tracking-widest"
+          >
+            {isPosting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            {target.threadTs ? 'Post to Thread' : `Post to #${target.channelName}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
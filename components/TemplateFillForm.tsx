@@ -0,0 +1,80 @@
+
+import React, { useState } from 'react';
+import { LayoutTemplate, X, Check } from 'lucide-react';
+import { MessageTemplate } from '../types';
+import { extractVariables, fillTemplate, humanizeVariable } from '../services/templates';
+import { Mrkdwn } from './Mrkdwn';
+
+interface TemplateFillFormProps {
+  template: MessageTemplate;
+  names: Record<string, string>;
+  onInsert: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Variables whose names suggest prose get a multi-line field
+const isLongField = (name: string) => /details|notes|highlights|fixes|issues|items|summary|body/i.test(name);
+
+export const TemplateFillForm: React.FC<TemplateFillFormProps> = ({ template, names, onInsert, onCancel }) => {
+  const variables = extractVariables(template.body);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const missing = variables.filter(name => !values[name]?.trim());
+  const filled = fillTemplate(template.body, values);
+
+  return (
+    <div className="bg-white border-2 border-indigo-100 rounded-[2rem] p-8 space-y-6 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <LayoutTemplate className="w-5 h-5 text-indigo-500" />
+          <span className="text-[11px] font-black uppercase tracking-[0.3em] text-slate-700">{template.name}</span>
+        </div>
+        <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-700 rounded-xl transition-all" title="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {variables.map((name, i) => (
+            <div key={name} className="space-y-1.5">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{humanizeVariable(name)}</label>
+              {isLongField(name) ? (
+                <textarea
+                  autoFocus={i === 0}
+                  value={values[name] || ''}
+                  onChange={(e) => setValues(current => ({ ...current, [name]: e.target.value }))}
+                  rows={3}
+                  className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-slate-50 focus:bg-white focus:border-indigo-500 outline-none text-sm transition-all resize-none"
+                />
+              ) : (
+                <input
+                  autoFocus={i === 0}
+                  value={values[name] || ''}
+                  onChange={(e) => setValues(current => ({ ...current, [name]: e.target.value }))}
+                  className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-slate-50 focus:bg-white focus:border-indigo-500 outline-none text-sm transition-all"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="p-5 bg-slate-50 rounded-2xl border border-slate-100 max-h-80 overflow-y-auto">
+          <Mrkdwn text={filled} names={names} className="text-sm text-slate-700 leading-relaxed" />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+          {missing.length > 0 ? `${missing.length} of ${variables.length} fields left` : 'All fields filled'}
+        </p>
+        <button
+          onClick={() => onInsert(filled)}
+          disabled={missing.length > 0}
+          className="flex items-center gap-2 px-5 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 text-white text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+        >
+          <Check className="w-4 h-4" />
+          Insert Into Composer
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+
+import React, { useState } from 'react';
+import { LayoutTemplate, Plus, Trash2, Copy, Download, Upload, Send, AlertCircle } from 'lucide-react';
+import { MessageTemplate, SlackChannel, StyleProfile } from '../types';
+import { createTemplate, exportLibrary, extractVariables, parseLibrary } from '../services/templates';
+
+interface TemplateLibraryProps {
+  templates: MessageTemplate[];
+  channels: SlackChannel[];
+  profiles: StyleProfile[];
+  onSave: (template: MessageTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (templates: MessageTemplate[]) => void;
+  onUse: (template: MessageTemplate) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-5 py-3 border-2 border-slate-100 rounded-2xl bg-slate-50 focus:bg-white focus:border-indigo-500 outline-none text-sm transition-all';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest px-1';
+
+const IMPORT_ERRORS: Record<string, string> = {
+  INVALID_JSON: 'That file is not valid JSON.',
+  INVALID_LIBRARY: 'That file does not contain a template library.',
+};
+
+export const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+  templates,
+  channels,
+  profiles,
+  onSave,
+  onDelete,
+  onImport,
+  onUse,
+  onClose,
+}) => {
+  const [activeId, setActiveId] = useState<string | undefined>(templates[0]?.id);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const draft = templates.find(t => t.id === activeId) || null;
+  const variables = draft ? extractVariables(draft.body) : [];
+
+  const addTemplate = (base?: MessageTemplate) => {
+    const template = base ? { ...base, id: createTemplate().id, name: `${base.name} Copy` } : createTemplate();
+    onSave(template);
+    setActiveId(template.id);
+  };
+
+  const update = (patch: Partial<MessageTemplate>) => {
+    if (draft) onSave({ ...draft, ...patch });
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportLibrary(templates)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'slack-templates.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseLibrary(await file.text());
+      onImport(imported);
+      if (imported[0]) setActiveId(imported[0].id);
+      setImportMessage({ text: `Imported ${imported.length} ${imported.length === 1 ? 'template' : 'templates'}.`, isError: false });
+    } catch (err: any) {
+      setImportMessage({ text: IMPORT_ERRORS[err.message] || 'Could not import that file.', isError: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/90 backdrop-blur-xl z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-4xl overflow-hidden animate-in zoom-in-95 duration-500 flex max-h-[90vh]">
+        <div className="w-72 bg-slate-50 border-r border-slate-100 p-8 space-y-4 overflow-y-auto shrink-0">
+          <div className="flex items-center gap-3 mb-4">
+            <LayoutTemplate className="w-6 h-6 text-indigo-500" />
+            <h2 className="text-xl font-black text-slate-900 tracking-tighter uppercase italic">Templates</h2>
+          </div>
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => setActiveId(template.id)}
+              className={`w-full flex items-center gap-2 px-4 py-3 rounded-xl text-left text-sm font-bold transition-all ${
+                activeId === template.id ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-white'
+              }`}
+            >
+              <span className="truncate">{template.name}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => addTemplate()}
+            className="w-full flex items-center gap-2 px-4 py-3 rounded-xl border-2 border-dashed border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            New Template
+          </button>
+
+          <div className="pt-4 border-t border-slate-200 space-y-2">
+            <button
+              onClick={handleExport}
+              disabled={templates.length === 0}
+              className="w-full flex items-center gap-2 px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-white transition-all disabled:opacity-40"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export Library
+            </button>
+            <label className="w-full flex items-center gap-2 px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-white transition-all cursor-pointer">
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {importMessage && (
+              <p className={`flex items-start gap-2 px-1 text-[11px] font-bold ${importMessage.isError ? 'text-rose-600' : 'text-emerald-600'}`}>
+                {importMessage.isError && <AlertCircle className="w-3.5 h-3.5 shrink-0" />}
+                {importMessage.text}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 p-10 space-y-6 overflow-y-auto">
+          {draft ? (
+            <>
+              <div className="space-y-2">
+                <label className={labelClass}>Name</label>
+                <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Message (use {'{{variable}}'} for blanks to fill in)</label>
+                <textarea
+                  value={draft.body}
+                  onChange={(e) => update({ body: e.target.value })}
+                  rows={8}
+                  placeholder="*Release {{version}}* is live :rocket:"
+                  className={`${fieldClass} resize-none font-mono`}
+                />
+                {variables.length > 0 && (
+                  <div className="flex flex-wrap gap-2 px-1">
+                    {variables.map(name => (
+                      <span key={name} className="px-2.5 py-1 bg-indigo-50 text-indigo-700 rounded-lg text-[11px] font-bold font-mono">{name}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label className={labelClass}>Default channel</label>
+                  <select
+                    value={draft.defaultChannelId || ''}
+                    onChange={(e) => update({ defaultChannelId: e.target.value || undefined })}
+                    className={fieldClass}
+                  >
+                    <option value="">Current channel</option>
+                    {draft.defaultChannelId && !channels.some(c => c.id === draft.defaultChannelId) && (
+                      <option value={draft.defaultChannelId}>Unknown channel ({draft.defaultChannelId})</option>
+                    )}
+                    {channels.map(channel => <option key={channel.id} value={channel.id}>#{channel.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Refinement style</label>
+                  <select
+                    value={draft.styleProfileId || ''}
+                    onChange={(e) => update({ styleProfileId: e.target.value || undefined })}
+                    className={fieldClass}
+                  >
+                    <option value="">Channel default</option>
+                    {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3 pt-2">
+                <button
+                  onClick={() => onUse(draft)}
+                  disabled={!draft.body.trim()}
+                  className="flex items-center gap-2 px-5 py-3 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-40"
+                >
+                  <Send className="w-3.5 h-3.5" />
+                  Use Template
+                </button>
+                <button
+                  onClick={() => addTemplate(draft)}
+                  className="flex items-center gap-2 px-5 py-3 rounded-xl bg-slate-50 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all"
+                >
+                  <Copy className="w-3.5 h-3.5" />
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => {
+                    onDelete(draft.id);
+                    setActiveId(templates.find(t => t.id !== draft.id)?.id);
+                  }}
+                  className="flex items-center gap-2 px-5 py-3 rounded-xl text-rose-500 text-[10px] font-black uppercase tracking-widest hover:bg-rose-50 transition-all"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Delete
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400 font-bold">Create a template to get started.</p>
+          )}
+
+          <div className="pt-6 border-t border-slate-100">
+            <button
+              onClick={onClose}
+              className="w-full py-4 px-8 bg-slate-900 hover:bg-indigo-600 text-white rounded-[1.5rem] font-black shadow-2xl shadow-slate-200 transition-all active:scale-95 uppercase text-xs tracking-widest"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { MessageCircle, X, FileText } from 'lucide-react';
+import { SlackMessage } from '../types';
+import { MessageTimeline } from './MessageTimeline';
+
+interface ThreadPanelProps {
+  channelName: string;
+  messages: SlackMessage[];
+  isLoading: boolean;
+  onSummarize?: () => void;
+  onClose: () => void;
+}
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({ channelName, messages, isLoading, onSummarize, onClose }) => {
+  const replyCount = Math.max(messages.length - 1, 0);
+
+  return (
+    <div className="w-96 border-l border-slate-100 bg-slate-50 flex flex-col shrink-0 animate-in slide-in-from-right-8 fade-in duration-300">
+      <div className="h-24 px-6 border-b bg-white flex items-center justify-between shrink-0">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-50 rounded-xl flex items-center justify-center">
+            <MessageCircle className="w-5 h-5 text-indigo-500" />
+          </div>
+          <div>
+            <h3 className="font-black text-slate-900 tracking-tight">Thread</h3>
+            <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">
+              #{channelName} · {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          {onSummarize && (
+            <button
+              onClick={onSummarize}
+              className="p-2 hover:bg-slate-100 rounded-xl transition-all text-slate-400 hover:text-indigo-600"
+              title="Summarize Thread"
+            >
+              <FileText className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-xl transition-all text-slate-400 hover:text-slate-700"
+            title="Close Thread"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <MessageTimeline
+        messages={messages}
+        isLoading={isLoading}
+        hasOlder={false}
+        isLoadingOlder={false}
+        onLoadOlder={() => {}}
+        compact
+      />
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+
+import React from 'react';
+import { ShieldCheck, AlertTriangle, Info, ClipboardPaste, FileUp, ScanSearch, RefreshCw } from 'lucide-react';
+import { TokenInspection } from '../types';
+
+interface TokenInspectorProps {
+  inspection: TokenInspection;
+}
+
+interface TokenActionsProps {
+  canInspect: boolean;
+  isInspecting: boolean;
+  onPaste: () => void;
+  onImportFile: (file: File | undefined) => void;
+  onInspect: () => void;
+}
+
+const actionClass = 'flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-all disabled:opacity-40';
+
+/**
+ * Explicit ways to bring a token in, plus a check of what it can do before connecting.
+ */
+export const TokenActions: React.FC<TokenActionsProps> = ({ canInspect, isInspecting, onPaste, onImportFile, onInspect }) => (
+  <div className="flex flex-wrap items-center gap-1">
+    <button onClick={onPaste} className={actionClass}>
+      <ClipboardPaste className="w-3.5 h-3.5" />
+      Paste
+    </button>
+    <label className={`${actionClass} cursor-pointer`}>
+      <FileUp className="w-3.5 h-3.5" />
+      Import File
+      <input
+        type="file"
+        accept=".txt,.env,.json,text/plain,application/json"
+        className="hidden"
+        onChange={(e) => {
+          onImportFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </label>
+    <button onClick={onInspect} disabled={!canInspect || isInspecting} className={`${actionClass} ml-auto`}>
+      {isInspecting ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <ScanSearch className="w-3.5 h-3.5" />}
+      Inspect Scopes
+    </button>
+  </div>
+);
+
+const TYPE_LABELS = { bot: 'Bot token', user: 'User token', app: 'App-level token', unknown: 'Unknown token type' };
+
+export const TokenInspector: React.FC<TokenInspectorProps> = ({ inspection }) => {
+  const { identity, type, scopes, unavailable } = inspection;
+
+  return (
+    <div className="p-5 bg-slate-50 border border-slate-100 rounded-2xl space-y-4 text-left animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-start justify-between gap-4">
+        <div className="overflow-hidden">
+          <p className="text-sm font-black text-slate-900 truncate">{identity.team}</p>
+          <p className="text-[11px] font-bold text-slate-500 truncate">@{identity.user} · {identity.url}</p>
+        </div>
+        <span className="shrink-0 px-2.5 py-1 bg-indigo-50 text-indigo-700 rounded-lg text-[10px] font-black uppercase tracking-widest">
+          {TYPE_LABELS[type]}
+        </span>
+      </div>
+
+      {scopes ? (
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Granted Scopes</p>
+          <div className="flex flex-wrap gap-1.5">
+            {scopes.map(scope => (
+              <span key={scope} className="px-2 py-0.5 bg-white border border-slate-100 rounded-md text-[11px] font-mono text-slate-600">{scope}</span>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="flex items-start gap-2 text-[11px] font-bold text-slate-500">
+          <Info className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          Slack's scope header wasn't readable through this connection, so feature checks are skipped.
+        </p>
+      )}
+
+      {scopes && (unavailable.length > 0 ? (
+        <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl space-y-1.5">
+          <p className="flex items-center gap-2 text-[10px] font-black text-amber-700 uppercase tracking-widest">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            Unavailable With These Scopes
+          </p>
+          <ul className="text-xs font-bold text-amber-800 space-y-0.5">
+            {unavailable.map(feature => <li key={feature}>• {feature}</li>)}
+          </ul>
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 text-[10px] font-black text-emerald-600 uppercase tracking-widest">
+          <ShieldCheck className="w-3.5 h-3.5" />
+          All features available
+        </p>
+      ))}
+    </div>
+  );
+};
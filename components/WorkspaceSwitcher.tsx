@@ -0,0 +1,99 @@
+
+import React, { useState } from 'react';
+import { User, Bot, ChevronsUpDown, Check, Plus, Lock, LogOut } from 'lucide-react';
+import { WorkspaceConnection } from '../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceConnection[];
+  activeId: string | null;
+  onSwitch: (id: string) => void;
+  onAdd: () => void;
+  onLock: () => void;
+  onDisconnect: () => void;
+}
+
+const identityLine = (workspace: WorkspaceConnection) =>
+  `@${workspace.identity.user}${workspace.identity.bot_id ? ' · Bot' : ''}`;
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeId,
+  onSwitch,
+  onAdd,
+  onLock,
+  onDisconnect,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = workspaces.find(w => w.id === activeId);
+  const Icon = active?.identity.bot_id ? Bot : User;
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-full left-0 right-0 mb-3 bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-2">
+          <p className="px-4 pt-3 pb-2 text-[9px] font-black text-slate-500 uppercase tracking-widest">Workspaces</p>
+          {workspaces.map(workspace => (
+            <button
+              key={workspace.id}
+              onClick={() => choose(() => onSwitch(workspace.id))}
+              className="w-full flex items-center gap-3 px-4 py-2.5 text-left hover:bg-slate-800 transition-all"
+            >
+              <div className="overflow-hidden flex-1">
+                <p className="text-xs font-black text-white truncate">{workspace.name}</p>
+                <p className="text-[10px] text-slate-500 truncate font-bold">{identityLine(workspace)}</p>
+              </div>
+              {workspace.id === activeId && <Check className="w-3.5 h-3.5 text-emerald-400 shrink-0" />}
+            </button>
+          ))}
+          <div className="border-t border-slate-800 p-1.5 space-y-0.5">
+            <button
+              onClick={() => choose(onAdd)}
+              className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-800 hover:text-white transition-all"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add Workspace
+            </button>
+            <button
+              onClick={() => choose(onLock)}
+              className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-800 hover:text-white transition-all"
+            >
+              <Lock className="w-3.5 h-3.5" />
+              Lock
+            </button>
+            <button
+              onClick={() => choose(onDisconnect)}
+              className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-rose-500/10 hover:text-rose-400 transition-all"
+            >
+              <LogOut className="w-3.5 h-3.5" />
+              Disconnect {active?.name || 'Workspace'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(current => !current)}
+        className="w-full flex items-center justify-between gap-3 text-left"
+        title={active?.identity.url}
+      >
+        <div className="flex items-center gap-3 overflow-hidden">
+          <div className="w-10 h-10 rounded-xl bg-slate-800 flex items-center justify-center border border-slate-700 shrink-0">
+            <Icon className="w-6 h-6 text-slate-400" />
+          </div>
+          <div className="overflow-hidden">
+            <p className="text-xs font-black text-white truncate uppercase tracking-widest leading-none mb-1">{active?.name || 'Authenticated'}</p>
+            <p className="text-[9px] text-slate-500 truncate font-black uppercase tracking-tighter">
+              {active ? identityLine(active) : 'Bot Instance Online'}
+            </p>
+          </div>
+        </div>
+        <ChevronsUpDown className="w-4 h-4 text-slate-500 shrink-0" />
+      </button>
+    </div>
+  );
+};
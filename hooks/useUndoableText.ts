@@ -0,0 +1,80 @@
+
+import { useCallback, useRef, useState } from 'react';
+
+// Keystrokes closer together than this collapse into a single undo step
+const TYPING_GROUP_MS = 1000;
+const MAX_HISTORY = 100;
+
+interface UndoableState {
+  past: string[];
+  present: string;
+  future: string[];
+}
+
+/**
+ * Text state with undo/redo. Programmatic replacements (`checkpoint: true`) always create
+ * an undo step; regular typing is grouped so one undo doesn't remove a single character.
+ */
+export const useUndoableText = (initial: string = '') => {
+  const [state, setState] = useState<UndoableState>({ past: [], present: initial, future: [] });
+  const lastPushRef = useRef(0);
+
+  const set = useCallback((next: string, checkpoint: boolean = false) => {
+    setState(current => {
+      if (next === current.present) return current;
+      const now = Date.now();
+      const startsNewStep = checkpoint || now - lastPushRef.current > TYPING_GROUP_MS;
+      // Reset the typing window after a checkpoint so the next keystroke starts its own step
+      lastPushRef.current = checkpoint ? 0 : now;
+      if (!startsNewStep) return { ...current, present: next, future: [] };
+      return {
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  /**
+   * Replaces the text and forgets its history, for when the text now belongs somewhere else
+   * (another channel's draft) and undo must not bring the old text back.
+   */
+  const reset = useCallback((next: string) => {
+    lastPushRef.current = 0;
+    setState({ past: [], present: next, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastPushRef.current = 0;
+    setState(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastPushRef.current = 0;
+    setState(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
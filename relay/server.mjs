@@ -0,0 +1,21 @@
+// @ts-check
+/**
+ * Standalone Slack relay for deployments without the Vite server, e.g. `PORT=8787 npm run relay`.
+ * Set RELAY_ALLOWED_ORIGIN to the app's origin to stop other sites from using the relay.
+ */
+import { createServer } from 'node:http';
+import { RELAY_PATH, createSlackRelay } from './slackRelay.mjs';
+
+const port = Number(process.env.PORT) || 8787;
+const relay = createSlackRelay({ allowedOrigin: process.env.RELAY_ALLOWED_ORIGIN || '*' });
+
+createServer((req, res) => {
+  if (!req.url?.startsWith(`${RELAY_PATH}?`)) {
+    res.statusCode = 404;
+    res.end();
+    return;
+  }
+  relay(req, res);
+}).listen(port, () => {
+  console.log(`Slack relay listening on http://localhost:${port}${RELAY_PATH}?`);
+});
@@ -0,0 +1,113 @@
+// @ts-check
+/**
+ * A minimal CORS relay for the Slack Web API, shared by the Vite dev/preview server and the standalone
+ * `npm run relay` entry. Requests use the same `?{url}` format as corsproxy.io, so SlackService can target
+ * either, but only Slack URLs are forwarded and only the headers Slack needs cross the relay.
+ */
+
+export const RELAY_PATH = '/slack-relay';
+
+// Only the auth and body type reach Slack; cookies and everything else the browser sends are dropped
+const FORWARDED_REQUEST_HEADERS = ['authorization', 'content-type'];
+// Headers SlackService reads: rate-limit backoff and the token inspector's scope list
+const RETURNED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'x-oauth-scopes'];
+
+/**
+ * Returns the Slack URL appended after the first `?`, or null unless it is a Web API method or one of
+ * the single-use upload URLs that files.getUploadURLExternal hands out.
+ * @param {string} requestUrl
+ * @returns {URL | null}
+ */
+export const resolveTarget = (requestUrl) => {
+  const index = requestUrl.indexOf('?');
+  if (index === -1) return null;
+
+  let target;
+  try {
+    target = new URL(requestUrl.slice(index + 1));
+  } catch {
+    return null;
+  }
+  if (target.protocol !== 'https:' || target.port || target.username || target.password) return null;
+  if (target.host === 'slack.com' && target.pathname.startsWith('/api/')) return target;
+  if (target.host === 'files.slack.com' && target.pathname.startsWith('/upload/')) return target;
+  return null;
+};
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<Buffer>}
+ */
+const readBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {string} error
+ */
+const sendError = (res, status, error) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ ok: false, error }));
+};
+
+/**
+ * Creates a Node/connect-style request handler. Logs record the method, Slack path and status only;
+ * the Authorization header and query strings are never written anywhere.
+ * @param {{ allowedOrigin?: string, log?: (line: string) => void }} [options]
+ */
+export const createSlackRelay = ({ allowedOrigin = '*', log = console.log } = {}) =>
+  /**
+   * @param {import('node:http').IncomingMessage} req
+   * @param {import('node:http').ServerResponse} res
+   */
+  async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-OAuth-Scopes');
+    if (allowedOrigin !== '*') res.setHeader('Vary', 'Origin');
+
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    const target = resolveTarget(req.url || '');
+    if (!target) {
+      sendError(res, 403, 'relay_target_not_allowed');
+      return;
+    }
+
+    /** @type {Record<string, string>} */
+    const headers = {};
+    FORWARDED_REQUEST_HEADERS.forEach(name => {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    });
+
+    try {
+      const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+      const upstream = await fetch(target, {
+        method: req.method,
+        headers,
+        body: hasBody ? await readBody(req) : undefined,
+      });
+
+      res.statusCode = upstream.status;
+      RETURNED_RESPONSE_HEADERS.forEach(name => {
+        const value = upstream.headers.get(name);
+        if (value !== null) res.setHeader(name, value);
+      });
+      res.end(Buffer.from(await upstream.arrayBuffer()));
+      log(`[slack-relay] ${req.method} ${target.host}${target.pathname} ${upstream.status}`);
+    } catch (err) {
+      sendError(res, 502, 'relay_upstream_failed');
+      log(`[slack-relay] ${req.method} ${target.host}${target.pathname} failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
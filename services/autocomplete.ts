@@ -0,0 +1,97 @@
+import { SlackChannel, SlackUser } from '../types';
+import { EMOJI } from './emoji';
+import { displayName } from './userDirectory';
+
+export type CompletionTrigger = '@' | '#' | ':';
+
+export interface CompletionQuery {
+  trigger: CompletionTrigger;
+  query: string;
+  // Index of the trigger character in the text
+  start: number;
+}
+
+export interface Suggestion {
+  key: string;
+  label: string;
+  detail?: string;
+  preview?: string;
+  // Text that replaces the trigger and query
+  insert: string;
+}
+
+export const MAX_SUGGESTIONS = 8;
+// Emoji completion waits for two characters, like Slack, so times such as 10:30 don't pop a menu
+const MIN_EMOJI_QUERY = 2;
+
+/**
+ * Finds an in-progress `@name`, `#channel` or `:emoji` token ending at the caret.
+ * The trigger must start the text or follow whitespace, so emails and URLs don't match.
+ */
+export const findCompletionQuery = (text: string, caret: number): CompletionQuery | null => {
+  const match = text.slice(0, caret).match(/(^|\s)([@#:])([\w.+-]*)$/);
+  if (!match) return null;
+  const trigger = match[2] as CompletionTrigger;
+  const query = match[3];
+  if (trigger === ':' && query.length < MIN_EMOJI_QUERY) return null;
+  return { trigger, query, start: caret - query.length - 1 };
+};
+
+// Prefix matches rank above matches elsewhere in the string
+const rank = (candidates: string[], query: string) => {
+  const q = query.toLowerCase();
+  let best = -1;
+  candidates.forEach(candidate => {
+    const value = candidate.toLowerCase();
+    if (value.startsWith(q)) best = Math.max(best, 2);
+    else if (value.includes(q)) best = Math.max(best, 1);
+  });
+  return best;
+};
+
+const topMatches = <T>(items: T[], query: string, fields: (item: T) => string[], label: (item: T) => string) =>
+  items
+    .map(item => ({ item, score: rank(fields(item), query) }))
+    .filter(entry => entry.score >= 0)
+    .sort((a, b) => b.score - a.score || label(a.item).localeCompare(label(b.item)))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(entry => entry.item);
+
+export const suggest = (
+  { trigger, query }: CompletionQuery,
+  { users, channels }: { users: SlackUser[]; channels: SlackChannel[] }
+): Suggestion[] => {
+  switch (trigger) {
+    case '@':
+      return topMatches(users, query, u => [u.name, displayName(u), u.real_name || ''], displayName).map(user => ({
+        key: user.id,
+        label: displayName(user),
+        detail: user.name,
+        insert: `<@${user.id}> `,
+      }));
+    case '#':
+      return topMatches(channels, query, c => [c.name], c => c.name).map(channel => ({
+        key: channel.id,
+        label: `#${channel.name}`,
+        detail: channel.is_private ? 'private' : undefined,
+        insert: `<#${channel.id}> `,
+      }));
+    case ':':
+      return topMatches(Object.keys(EMOJI), query, name => [name], name => name).map(name => ({
+        key: name,
+        label: `:${name}:`,
+        preview: EMOJI[name],
+        insert: `:${name}: `,
+      }));
+  }
+};
+
+/**
+ * Replaces the query token with the chosen suggestion and returns the new text and caret position.
+ */
+export const applySuggestion = (text: string, caret: number, query: CompletionQuery, suggestion: Suggestion) => {
+  const rest = text.slice(caret).replace(/^\S*/, '');
+  // Avoid doubling up the trailing space when the completion lands before existing whitespace
+  const before = text.slice(0, query.start) + (/^\s/.test(rest) ? suggestion.insert.trimEnd() : suggestion.insert);
+  return { text: before + rest, caret: before.length };
+};
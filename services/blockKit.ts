@@ -0,0 +1,169 @@
+
+import { SlackBlock, SlackBlockType, TextObject, ButtonElement } from '../types';
+
+// Limits from https://api.slack.com/reference/block-kit/blocks
+export const BLOCK_LIMITS = {
+  maxBlocks: 50,
+  blockId: 255,
+  headerText: 150,
+  sectionText: 3000,
+  sectionFields: 10,
+  fieldText: 2000,
+  contextElements: 10,
+  actionsElements: 25,
+  buttonText: 75,
+  buttonValue: 2000,
+  actionId: 255,
+  url: 3000,
+};
+
+export const createBlock = (type: SlackBlockType): SlackBlock => {
+  switch (type) {
+    case 'header':
+      return { type: 'header', text: { type: 'plain_text', text: 'Announcement', emoji: true } };
+    case 'section':
+      return { type: 'section', text: { type: 'mrkdwn', text: 'Write something *important*.' } };
+    case 'divider':
+      return { type: 'divider' };
+    case 'context':
+      return { type: 'context', elements: [{ type: 'mrkdwn', text: 'Posted via SlackConnect' }] };
+    case 'actions':
+      return { type: 'actions', elements: [createButton('Open')] };
+  }
+};
+
+export const createButton = (label: string): ButtonElement => ({
+  type: 'button',
+  text: { type: 'plain_text', text: label, emoji: true },
+  action_id: `button_${Math.random().toString(36).slice(2, 8)}`,
+});
+
+const checkText = (errors: string[], where: string, text: TextObject | undefined, max: number, plainOnly = false) => {
+  if (!text || typeof text.text !== 'string') {
+    errors.push(`${where}: text is required`);
+    return;
+  }
+  if (text.type !== 'plain_text' && (plainOnly || text.type !== 'mrkdwn')) {
+    errors.push(`${where}: text type must be ${plainOnly ? 'plain_text' : 'plain_text or mrkdwn'}`);
+  }
+  if (!text.text.trim()) errors.push(`${where}: text cannot be empty`);
+  if (text.text.length > max) errors.push(`${where}: text exceeds ${max} characters`);
+};
+
+const checkButton = (errors: string[], where: string, button: ButtonElement) => {
+  if (button?.type !== 'button') {
+    errors.push(`${where}: only button elements are supported`);
+    return;
+  }
+  checkText(errors, where, button.text, BLOCK_LIMITS.buttonText, true);
+  if (button.action_id && button.action_id.length > BLOCK_LIMITS.actionId) {
+    errors.push(`${where}: action_id exceeds ${BLOCK_LIMITS.actionId} characters`);
+  }
+  if (button.value && button.value.length > BLOCK_LIMITS.buttonValue) {
+    errors.push(`${where}: value exceeds ${BLOCK_LIMITS.buttonValue} characters`);
+  }
+  if (button.url && button.url.length > BLOCK_LIMITS.url) {
+    errors.push(`${where}: url exceeds ${BLOCK_LIMITS.url} characters`);
+  }
+  if (button.style && button.style !== 'primary' && button.style !== 'danger') {
+    errors.push(`${where}: style must be primary or danger`);
+  }
+};
+
+/**
+ * Checks blocks against Slack's documented limits so the API never rejects them with `invalid_blocks`.
+ * Returns a list of human-readable problems; empty means the payload is valid.
+ */
+export const validateBlocks = (blocks: SlackBlock[]): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(blocks)) return ['Blocks must be a JSON array'];
+  if (blocks.length > BLOCK_LIMITS.maxBlocks) {
+    errors.push(`A message can contain at most ${BLOCK_LIMITS.maxBlocks} blocks`);
+  }
+
+  blocks.forEach((block, index) => {
+    const where = `Block ${index + 1} (${block?.type ?? 'unknown'})`;
+    if (block?.block_id && block.block_id.length > BLOCK_LIMITS.blockId) {
+      errors.push(`${where}: block_id exceeds ${BLOCK_LIMITS.blockId} characters`);
+    }
+
+    switch (block?.type) {
+      case 'header':
+        checkText(errors, where, block.text, BLOCK_LIMITS.headerText, true);
+        break;
+      case 'section':
+        if (!block.text && !block.fields?.length) {
+          errors.push(`${where}: needs text or fields`);
+        }
+        if (block.text) checkText(errors, where, block.text, BLOCK_LIMITS.sectionText);
+        if (block.fields) {
+          if (block.fields.length > BLOCK_LIMITS.sectionFields) {
+            errors.push(`${where}: at most ${BLOCK_LIMITS.sectionFields} fields`);
+          }
+          block.fields.forEach((field, i) => checkText(errors, `${where} field ${i + 1}`, field, BLOCK_LIMITS.fieldText));
+        }
+        if (block.accessory) checkButton(errors, `${where} accessory`, block.accessory);
+        break;
+      case 'divider':
+        break;
+      case 'context':
+        if (!block.elements?.length) errors.push(`${where}: needs at least one element`);
+        else if (block.elements.length > BLOCK_LIMITS.contextElements) {
+          errors.push(`${where}: at most ${BLOCK_LIMITS.contextElements} elements`);
+        }
+        block.elements?.forEach((el, i) => checkText(errors, `${where} element ${i + 1}`, el, BLOCK_LIMITS.sectionText));
+        break;
+      case 'actions':
+        if (!block.elements?.length) errors.push(`${where}: needs at least one button`);
+        else if (block.elements.length > BLOCK_LIMITS.actionsElements) {
+          errors.push(`${where}: at most ${BLOCK_LIMITS.actionsElements} elements`);
+        }
+        block.elements?.forEach((el, i) => checkButton(errors, `${where} button ${i + 1}`, el));
+        break;
+      default:
+        errors.push(`${where}: unsupported block type`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Parses raw JSON from the editor. Accepts either a bare array or Block Kit Builder's `{ "blocks": [...] }`.
+ */
+export const parseBlocksJson = (json: string): { blocks: SlackBlock[] | null; errors: string[] } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err: any) {
+    return { blocks: null, errors: [`Invalid JSON: ${err.message}`] };
+  }
+  const blocks = Array.isArray(parsed) ? parsed : parsed?.blocks;
+  if (!Array.isArray(blocks)) {
+    return { blocks: null, errors: ['Expected an array of blocks or an object with a "blocks" array'] };
+  }
+  return { blocks, errors: validateBlocks(blocks) };
+};
+
+/**
+ * Builds the plain `text` Slack shows in notifications when a message is posted as blocks.
+ */
+export const blocksToFallbackText = (blocks: SlackBlock[]): string => {
+  const parts: string[] = [];
+  blocks.forEach(block => {
+    switch (block?.type) {
+      case 'header':
+        if (block.text?.text) parts.push(block.text.text);
+        break;
+      case 'section':
+        if (block.text?.text) parts.push(block.text.text);
+        block.fields?.forEach(field => field?.text && parts.push(field.text));
+        break;
+      case 'context':
+        block.elements?.forEach(el => el?.text && parts.push(el.text));
+        break;
+    }
+  });
+  return parts.join('\n').trim();
+};
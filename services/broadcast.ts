@@ -0,0 +1,57 @@
+
+import { BroadcastResult, BroadcastStatus, SendMessageOptions } from '../types';
+import { SlackService } from './slackService';
+
+// Parallel posts in flight; each channel's posts are still spaced to Slack's per-channel posting limit
+export const BROADCAST_CONCURRENCY = 3;
+
+export const classifyBroadcastError = (code: string): BroadcastStatus => {
+  switch (code) {
+    case 'not_in_channel':
+    case 'channel_not_found':
+      return code;
+    case 'ratelimited':
+    case 'HTTP_429':
+      return 'rate_limited';
+    default:
+      return 'error';
+  }
+};
+
+export const isBroadcastFailure = (result: BroadcastResult) =>
+  result.status !== 'ok' && result.status !== 'pending' && result.status !== 'sending';
+
+/**
+ * Posts the same message to every channel with at most `concurrency` requests in flight.
+ * Failures are recorded per channel instead of aborting the run; `onUpdate` fires on every status change.
+ */
+export const broadcastMessage = async (
+  service: SlackService,
+  channelIds: string[],
+  text: string,
+  options: SendMessageOptions,
+  onUpdate: (result: BroadcastResult) => void,
+  concurrency: number = BROADCAST_CONCURRENCY,
+): Promise<BroadcastResult[]> => {
+  const results: BroadcastResult[] = channelIds.map(channelId => ({ channelId, status: 'pending' }));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < channelIds.length) {
+      const index = next++;
+      const channelId = channelIds[index];
+      onUpdate({ channelId, status: 'sending' });
+
+      try {
+        const sent = await service.sendMessage(channelId, text, options);
+        results[index] = { channelId, status: 'ok', ts: sent.ts };
+      } catch (err: any) {
+        results[index] = { channelId, status: classifyBroadcastError(err.message), error: err.message };
+      }
+      onUpdate(results[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, channelIds.length) }, worker));
+  return results;
+};
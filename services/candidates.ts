@@ -0,0 +1,14 @@
+// Line the model places between alternative versions so they can be split while streaming. It has to be
+// something drafts never contain: a Markdown rule (`---`) would cut a candidate apart.
+export const CANDIDATE_SEPARATOR = '<<<CANDIDATE>>>';
+
+const SEPARATOR_LINE = new RegExp(`^[ \\t]*${CANDIDATE_SEPARATOR}[ \\t]*$`, 'm');
+
+/**
+ * Splits streamed output into candidate versions. Safe to call on partial text.
+ */
+export const splitCandidates = (text: string): string[] =>
+  text
+    .split(SEPARATOR_LINE)
+    .map(candidate => candidate.trim())
+    .filter(Boolean);
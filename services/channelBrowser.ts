@@ -0,0 +1,61 @@
+import { ChannelSort, SlackChannel } from '../types';
+
+export interface ChannelFilter {
+  query: string;
+  sort: ChannelSort;
+  hideArchived: boolean;
+  starredIds: string[];
+}
+
+const WORD_BREAKS = new Set(['-', '_', '.']);
+
+/**
+ * Scores `name` against a fuzzy query whose characters must all appear in order, e.g. `engrel` finds
+ * `eng-releases`. Runs of consecutive characters, word starts and a matching prefix score higher.
+ * Returns null when the name doesn't match at all.
+ */
+export const fuzzyScore = (name: string, query: string): number | null => {
+  const q = query.toLowerCase().replace(/^#/, '').replace(/\s+/g, '');
+  if (!q) return 0;
+  const value = name.toLowerCase();
+
+  let score = 0;
+  let run = 0;
+  let from = 0;
+  for (const char of q) {
+    const index = value.indexOf(char, from);
+    if (index === -1) return null;
+    run = index === from && from > 0 ? run + 1 : 0;
+    score += 1 + run * 2;
+    if (index === 0) score += 4;
+    else if (WORD_BREAKS.has(value[index - 1])) score += 3;
+    from = index + 1;
+  }
+  // Among equal matches, the name with less left over is the likelier target
+  return score - (value.length - q.length) * 0.01;
+};
+
+const compareBy = (sort: ChannelSort) => (a: SlackChannel, b: SlackChannel) =>
+  sort === 'members'
+    ? (b.num_members ?? 0) - (a.num_members ?? 0) || a.name.localeCompare(b.name)
+    : a.name.localeCompare(b.name);
+
+/**
+ * Filters and orders the sidebar's channels. Starred channels always lead; within each part a query
+ * ranks by match quality, otherwise the chosen sort applies.
+ */
+export const browseChannels = (channels: SlackChannel[], filter: ChannelFilter) => {
+  const starred = new Set(filter.starredIds);
+  const compare = compareBy(filter.sort);
+
+  return channels
+    .filter(channel => !filter.hideArchived || !channel.is_archived)
+    .map(channel => ({ channel, score: fuzzyScore(channel.name, filter.query) }))
+    .filter((entry): entry is { channel: SlackChannel; score: number } => entry.score !== null)
+    .sort((a, b) =>
+      Number(starred.has(b.channel.id)) - Number(starred.has(a.channel.id))
+      || b.score - a.score
+      || compare(a.channel, b.channel)
+    )
+    .map(entry => entry.channel);
+};
@@ -0,0 +1,31 @@
+import { MessageDraft } from '../types';
+
+export const DRAFT_AUTOSAVE_MS = 500;
+
+export const draftKey = (workspaceId: string | null, channelId: string, threadTs?: string) =>
+  [workspaceId ?? '', channelId, threadTs ?? ''].join(':');
+
+/**
+ * Stores `text` as the draft for a destination, or drops the draft once the text is blank.
+ * Returns the same object when nothing changed so state updates can be skipped.
+ */
+export const updateDrafts = (
+  drafts: Record<string, MessageDraft>,
+  target: Omit<MessageDraft, 'text' | 'updatedAt'>,
+  text: string
+): Record<string, MessageDraft> => {
+  const key = draftKey(target.workspaceId, target.channelId, target.threadTs);
+  if (!text.trim()) {
+    if (!drafts[key]) return drafts;
+    const { [key]: _removed, ...rest } = drafts;
+    return rest;
+  }
+  if (drafts[key]?.text === text) return drafts;
+  return { ...drafts, [key]: { ...target, text, updatedAt: Date.now() } };
+};
+
+/**
+ * Channels in a workspace with a saved draft, in the channel itself or in one of its threads.
+ */
+export const channelsWithDrafts = (drafts: Record<string, MessageDraft>, workspaceId: string | null) =>
+  new Set<string>(Object.values(drafts).filter(d => d.workspaceId === workspaceId).map(d => d.channelId));
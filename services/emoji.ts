@@ -0,0 +1,97 @@
+// Common Slack shortcodes. Slack renders these itself, so the composer only needs them for completion and preview
+export const EMOJI: Record<string, string> = {
+  '+1': '👍',
+  '-1': '👎',
+  '100': '💯',
+  alarm_clock: '⏰',
+  bangbang: '‼️',
+  beers: '🍻',
+  bell: '🔔',
+  blush: '😊',
+  boom: '💥',
+  bug: '🐛',
+  bulb: '💡',
+  calendar: '📆',
+  chart_with_upwards_trend: '📈',
+  check: '✔️',
+  clap: '👏',
+  coffee: '☕',
+  confused: '😕',
+  construction: '🚧',
+  cry: '😢',
+  dart: '🎯',
+  disappointed: '😞',
+  eyes: '👀',
+  facepalm: '🤦',
+  fire: '🔥',
+  gem: '💎',
+  ghost: '👻',
+  gift: '🎁',
+  grimacing: '😬',
+  grin: '😁',
+  grinning: '😀',
+  heart: '❤️',
+  heart_eyes: '😍',
+  heavy_check_mark: '✔️',
+  hourglass: '⌛',
+  hugging_face: '🤗',
+  hushed: '😯',
+  information_source: 'ℹ️',
+  joy: '😂',
+  key: '🔑',
+  laughing: '😆',
+  link: '🔗',
+  lock: '🔒',
+  mag: '🔍',
+  memo: '📝',
+  moneybag: '💰',
+  muscle: '💪',
+  no_entry: '⛔',
+  ok_hand: '👌',
+  package: '📦',
+  partying_face: '🥳',
+  pencil: '📝',
+  pray: '🙏',
+  pushpin: '📌',
+  question: '❓',
+  raised_hands: '🙌',
+  relaxed: '☺️',
+  relieved: '😌',
+  rocket: '🚀',
+  rotating_light: '🚨',
+  scream: '😱',
+  see_no_evil: '🙈',
+  shipit: '🐿️',
+  shrug: '🤷',
+  slightly_smiling_face: '🙂',
+  smile: '😄',
+  smiley: '😃',
+  smirk: '😏',
+  sob: '😭',
+  sparkles: '✨',
+  speech_balloon: '💬',
+  star: '⭐',
+  star_struck: '🤩',
+  stopwatch: '⏱️',
+  sunglasses: '😎',
+  sweat_smile: '😅',
+  tada: '🎉',
+  thinking_face: '🤔',
+  thumbsdown: '👎',
+  thumbsup: '👍',
+  tools: '🛠️',
+  trophy: '🏆',
+  upside_down_face: '🙃',
+  wave: '👋',
+  white_check_mark: '✅',
+  wink: '😉',
+  wrench: '🔧',
+  x: '❌',
+  zap: '⚡',
+};
+
+/**
+ * Replaces known `:shortcode:` tokens with their emoji, leaving unknown ones as typed.
+ */
+export const renderEmoji = (text: string) =>
+  text.replace(/:([a-z0-9_+-]+):/g, (token, name) => EMOJI[name] || token);
@@ -1,38 +1,38 @@
-
 import { GoogleGenAI } from "@google/genai";
+import { GenerateRequest, LLMProvider } from "./llmProvider";
 
-export class GeminiService {
-  /**
-   * Refines a message using Gemini AI.
-   * Initializes the AI client locally to avoid startup crashes if process.env is unavailable.
-   */
-  async refineMessage(message: string, tone: 'professional' | 'friendly' | 'concise' = 'professional'): Promise<string> {
-    // Safely check for process/env to prevent crashes in restricted browser environments
-    const safeEnv = typeof process !== 'undefined' && process.env ? process.env : (window as any).env || {};
-    const apiKey = safeEnv.API_KEY;
+export class GeminiService implements LLMProvider {
+  readonly label = 'Gemini';
 
-    if (!apiKey) {
-      console.warn("Gemini Service: API_KEY is missing. Refinement disabled.");
-      return message;
-    }
+  constructor(private apiKey: string, private model: string) {}
+
+  private createClient(): GoogleGenAI {
+    // Create fresh instance per request as per best practices
+    return new GoogleGenAI({ apiKey: this.apiKey });
+  }
 
-    try {
-      // Create fresh instance per request as per best practices
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `You are an expert communicator. Refine the following Slack message to be more ${tone}. 
-        Maintain the original intent but improve clarity, grammar, and impact.
-        
-        Message: "${message}"
-        
-        Output only the refined text without any quotes or additional comments.`,
-      });
+  private buildParams({ system, input, schema, signal }: GenerateRequest) {
+    return {
+      model: this.model,
+      contents: input,
+      config: {
+        systemInstruction: system,
+        responseMimeType: schema ? 'application/json' : undefined,
+        responseJsonSchema: schema,
+        abortSignal: signal,
+      },
+    };
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const response = await this.createClient().models.generateContent(this.buildParams(request));
+    return response.text || '';
+  }
 
-      return response.text || message;
-    } catch (error) {
-      console.error("Gemini refinement failed:", error);
-      return message;
+  async *stream(request: GenerateRequest): AsyncGenerator<string> {
+    const stream = await this.createClient().models.generateContentStream(this.buildParams(request));
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
     }
   }
 }
@@ -0,0 +1,64 @@
+import { LLMProviderId, LLMSettings, LLMTask } from '../types';
+import { GeminiService } from './geminiService';
+import { OpenAICompatibleProvider } from './openAiProvider';
+import { MockProvider } from './mockProvider';
+
+export interface GenerateRequest {
+  // Which feature is asking; lets offline providers return a plausible shape
+  task: LLMTask;
+  system: string;
+  input: string;
+  // JSON Schema the output must satisfy; providers that can't enforce it still request JSON
+  schema?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+/**
+ * A text-generation backend. `stream` yields text deltas, not the accumulated output.
+ */
+export interface LLMProvider {
+  readonly label: string;
+  generate(request: GenerateRequest): Promise<string>;
+  stream(request: GenerateRequest): AsyncGenerator<string>;
+}
+
+export const PROVIDER_OPTIONS: { id: LLMProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: 'gemini-3-flash-preview' },
+  { id: 'openai', label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini' },
+  { id: 'mock', label: 'Offline Mock', defaultModel: 'mock' },
+];
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = { provider: 'gemini', model: '', apiKey: '', baseUrl: '' };
+
+export const defaultModelFor = (provider: LLMProviderId) =>
+  PROVIDER_OPTIONS.find(option => option.id === provider)?.defaultModel || '';
+
+// Key injected by vite.config.ts at build time; a key entered in settings takes precedence
+const envApiKey = (): string | undefined => {
+  // Safely check for process/env to prevent crashes in restricted browser environments
+  const safeEnv = typeof process !== 'undefined' && process.env ? process.env : (window as any).env || {};
+  return safeEnv.API_KEY;
+};
+
+/**
+ * Builds the provider described by the settings, or null when it is missing required configuration.
+ */
+export const createProvider = (settings: LLMSettings): LLMProvider | null => {
+  const model = settings.model.trim() || defaultModelFor(settings.provider);
+  switch (settings.provider) {
+    case 'gemini': {
+      const apiKey = settings.apiKey.trim() || envApiKey();
+      if (!apiKey) {
+        console.warn("Gemini Service: API_KEY is missing. AI features disabled.");
+        return null;
+      }
+      return new GeminiService(apiKey, model);
+    }
+    case 'openai':
+      return settings.baseUrl.trim() ? new OpenAICompatibleProvider(settings.baseUrl.trim(), settings.apiKey.trim(), model) : null;
+    case 'mock':
+      return new MockProvider();
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,96 @@
+import { ConversationSummary } from '../types';
+import { GenerateRequest, LLMProvider } from './llmProvider';
+import { CANDIDATE_SEPARATOR } from './candidates';
+
+// Pause between streamed words so the streaming UI is visible during development
+const MOCK_STREAM_DELAY_MS = 15;
+const MAX_ITEMS = 5;
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Content arrives wrapped in a tagged block (see wrapUntrusted); the mock only works on the inside
+const unwrap = (input: string) => input.match(/<(\w+)>\n([\s\S]*)\n<\/\1>/)?.[2] ?? input;
+
+const tidy = (text: string) => {
+  const collapsed = text.replace(/[ \t]+/g, ' ').trim();
+  if (!collapsed) return collapsed;
+  const capitalized = collapsed[0].toUpperCase() + collapsed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+};
+
+const refine = (draft: string) => {
+  const base = tidy(draft);
+  return [base, `${base} Thanks!`, `Quick update: ${base[0]?.toLowerCase() ?? ''}${base.slice(1)}`].join(`\n${CANDIDATE_SEPARATOR}\n`);
+};
+
+const summarizeTranscript = (input: string): ConversationSummary => {
+  // Transcript lines look like "[2024-01-01 09:30] name: text"
+  const lines = input.split('\n')
+    .filter(line => line.startsWith('['))
+    .map(line => line.replace(/^\[[^\]]*\]\s*/, '').trim());
+  const matching = (pattern: RegExp) => lines.filter(line => pattern.test(line)).slice(0, MAX_ITEMS);
+  return {
+    highlights: lines.slice(0, 3),
+    decisions: matching(/\b(decided|agreed|going with|approved)\b/i),
+    openQuestions: matching(/\?\s*(\(\d+ replies\))?$/),
+    actionItems: matching(/\b(todo|action|will|need to|follow up)\b/i),
+  };
+};
+
+const mergeSummaries = (input: string): ConversationSummary => {
+  const merged: ConversationSummary = { highlights: [], decisions: [], openQuestions: [], actionItems: [] };
+  try {
+    const partials: ConversationSummary[] = JSON.parse(unwrap(input));
+    partials.forEach(partial => {
+      (Object.keys(merged) as (keyof ConversationSummary)[]).forEach(key => {
+        merged[key] = [...new Set([...merged[key], ...(partial[key] || [])])].slice(0, MAX_ITEMS);
+      });
+    });
+  } catch {
+    // Unparseable notes merge to an empty summary
+  }
+  return merged;
+};
+
+/**
+ * Deterministic offline provider for development and tests. Output depends only on the request,
+ * so the same input always produces the same refinement, summary or reply.
+ */
+export class MockProvider implements LLMProvider {
+  readonly label = 'Mock';
+
+  async generate({ task, input, signal }: GenerateRequest): Promise<string> {
+    if (signal?.aborted) throw abortError();
+    switch (task) {
+      case 'refine':
+        return refine(unwrap(input));
+      case 'summarize':
+        return JSON.stringify(input.includes('<notes>') ? mergeSummaries(input) : summarizeTranscript(unwrap(input)));
+      case 'reply':
+        return "Thanks for the update! I'll take a look and follow up shortly.";
+      default:
+        return input;
+    }
+  }
+
+  async *stream(request: GenerateRequest): AsyncGenerator<string> {
+    const text = await this.generate(request);
+    for (const word of text.match(/\s*\S+/g) || []) {
+      await sleep(MOCK_STREAM_DELAY_MS, request.signal);
+      yield word;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { GenerateRequest, LLMProvider } from './llmProvider';
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API (OpenAI, Ollama, vLLM, llama.cpp, LM Studio).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly label = 'OpenAI-compatible';
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private apiKey: string, private model: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async post(request: GenerateRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          stream,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.input },
+          ],
+          // json_schema support varies between servers; json_object is the widely implemented subset
+          response_format: request.schema ? { type: 'json_object' } : undefined,
+        }),
+        signal: request.signal,
+      });
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      throw new Error('CORS_ERROR');
+    }
+    if (!response.ok) throw new Error(`HTTP_${response.status}`);
+    return response;
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const data = await (await this.post(request, false)).json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *stream(request: GenerateRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      yield (await response.json()).choices?.[0]?.message?.content || '';
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events: one `data: {...}` payload per line, finished by `data: [DONE]`
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return;
+          try {
+            const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          } catch {
+            // Ignore keep-alive comments and partial frames
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
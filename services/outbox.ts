@@ -0,0 +1,95 @@
+import { OutboxEntry } from '../types';
+import { SlackService, TRANSIENT_ERRORS } from './slackService';
+
+const DB_NAME = 'slack-connect';
+const STORE_NAME = 'outbox';
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// How far before an entry was created to look for an earlier attempt, allowing for clock skew with Slack
+const DUPLICATE_WINDOW_SECONDS = 300;
+
+export interface OutboxStore {
+  list(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class IndexedDbOutboxStore implements OutboxStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor() {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    this.db = promisify(request);
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    return (await this.db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async list() {
+    const entries = await promisify((await this.store('readonly')).getAll()) as OutboxEntry[];
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async put(entry: OutboxEntry) {
+    await promisify((await this.store('readwrite')).put(entry));
+  }
+
+  async remove(id: string) {
+    await promisify((await this.store('readwrite')).delete(id));
+  }
+}
+
+// Used where IndexedDB is unavailable (some private browsing modes); the outbox then lasts one session
+class MemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, OutboxEntry>();
+
+  async list() {
+    return [...this.entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async put(entry: OutboxEntry) {
+    this.entries.set(entry.id, entry);
+  }
+
+  async remove(id: string) {
+    this.entries.delete(id);
+  }
+}
+
+export const createOutboxStore = (): OutboxStore =>
+  typeof indexedDB === 'undefined' ? new MemoryOutboxStore() : new IndexedDbOutboxStore();
+
+/**
+ * Send failures worth queueing: the request never got a usable answer (network, CORS, relay down) or
+ * Slack had a server error. Anything Slack rejected outright would fail the same way again.
+ */
+export const isOutboxError = (code: string) =>
+  code === 'CORS_ERROR' || code.startsWith('HTTP_5') || TRANSIENT_ERRORS.has(code);
+
+export const retryDelay = (attempts: number) =>
+  Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+
+/**
+ * Posts an outbox entry, first checking whether an earlier attempt already reached Slack. Every attempt,
+ * including the original send, carries the entry's ID in message metadata, so a request that timed out
+ * after Slack accepted it is found here rather than posted a second time.
+ */
+export const deliverOutboxEntry = async (service: SlackService, entry: OutboxEntry): Promise<{ ts: string; duplicate: boolean }> => {
+  if (entry.attempts > 0) {
+    const oldest = (entry.createdAt / 1000 - DUPLICATE_WINDOW_SECONDS).toFixed(6);
+    const existing = await service.findOutboxMessage(entry.channelId, entry.id, oldest, entry.options.threadTs);
+    if (existing) return { ts: existing.ts, duplicate: true };
+  }
+  const sent = await service.sendMessage(entry.channelId, entry.text, { ...entry.options, outboxId: entry.id });
+  return { ts: sent.ts || '', duplicate: false };
+};
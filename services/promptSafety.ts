@@ -0,0 +1,80 @@
+// Slack rejects message text beyond this length
+const SLACK_TEXT_LIMIT = 40000;
+// A refinement may grow the draft, but not balloon into something else entirely
+const MAX_GROWTH_FACTOR = 3;
+const MIN_GROWTH_ALLOWANCE = 280;
+
+const BROADCAST_PATTERN = /<!(channel|here|everyone)(?:\|[^>]*)?>|(?:^|[^\w<])@(channel|here|everyone)\b/gi;
+const MENTION_PATTERN = /<([@#][UWC][A-Z0-9]+)(?:\|[^>]*)?>/g;
+const LINK_PATTERN = /<(https?:\/\/[^|>\s]+)(?:\|[^>]*)?>|https?:\/\/[^\s<>|]+/gi;
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]+`/g;
+
+/**
+ * Wraps untrusted text (a draft, a transcript) in tags the system prompt refers to, neutralising
+ * any closing tag inside the text so it can't break out of its block.
+ */
+export const wrapUntrusted = (tag: string, text: string) =>
+  `<${tag}>\n${text.replace(new RegExp(`</?${tag}>`, 'gi'), match => match.replace('<', '&lt;'))}\n</${tag}>`;
+
+const collect = (text: string, pattern: RegExp, pick: (match: RegExpMatchArray) => string) =>
+  [...text.matchAll(pattern)].map(pick);
+
+const broadcastsIn = (text: string) => new Set(collect(text, BROADCAST_PATTERN, m => (m[1] || m[2]).toLowerCase()));
+const mentionsIn = (text: string) => new Set(collect(text, MENTION_PATTERN, m => m[1]));
+// Trailing punctuation usually belongs to the sentence, not the URL
+const linksIn = (text: string) => new Set(collect(text, LINK_PATTERN, m => (m[1] || m[0]).replace(/[.,;:!?)]+$/, '').toLowerCase()));
+const codeIn = (text: string) => collect(text, CODE_PATTERN, m => m[0]);
+
+const missingFrom = (source: Set<string>, target: Set<string>) => [...source].filter(item => !target.has(item));
+
+/**
+ * Checks a refinement against its draft and returns why it must be discarded, or null if it is usable.
+ * Anything that could notify people, send them somewhere new or change code is a hard failure.
+ */
+export const findRefinementViolation = (draft: string, refined: string): string | null => {
+  const text = refined.trim();
+  if (!text) return 'empty output';
+
+  const maxLength = Math.min(SLACK_TEXT_LIMIT, Math.max(draft.length * MAX_GROWTH_FACTOR, draft.length + MIN_GROWTH_ALLOWANCE));
+  if (text.length > maxLength) return 'output is far longer than the draft';
+
+  const addedBroadcasts = missingFrom(broadcastsIn(text), broadcastsIn(draft));
+  if (addedBroadcasts.length > 0) return `adds @${addedBroadcasts[0]}`;
+
+  const addedLinks = missingFrom(linksIn(text), linksIn(draft));
+  if (addedLinks.length > 0) return `adds a link to ${addedLinks[0]}`;
+
+  const remaining = codeIn(text);
+  const lostCode = codeIn(draft).find(block => {
+    const index = remaining.indexOf(block);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+  if (lostCode) return 'changes a code block';
+
+  return null;
+};
+
+/**
+ * Non-blocking differences the user should look at before sending: mentions or links
+ * that were dropped, and mentions that were introduced.
+ */
+export const refinementWarnings = (draft: string, refined: string): string[] => {
+  const warnings: string[] = [];
+  const draftMentions = mentionsIn(draft);
+  const refinedMentions = mentionsIn(refined);
+
+  const removedMentions = missingFrom(draftMentions, refinedMentions);
+  if (removedMentions.length > 0) warnings.push(`Removes ${removedMentions.length === 1 ? 'a mention' : `${removedMentions.length} mentions`} from your draft.`);
+  const addedMentions = missingFrom(refinedMentions, draftMentions);
+  if (addedMentions.length > 0) warnings.push(`Adds ${addedMentions.length === 1 ? "a mention that wasn't" : `${addedMentions.length} mentions that weren't`} in your draft.`);
+
+  const removedLinks = missingFrom(linksIn(draft), linksIn(refined));
+  if (removedLinks.length > 0) warnings.push(`Drops or changes ${removedLinks.length === 1 ? 'a link' : `${removedLinks.length} links`}: ${removedLinks.join(', ')}`);
+
+  const removedBroadcasts = missingFrom(broadcastsIn(draft), broadcastsIn(refined));
+  if (removedBroadcasts.length > 0) warnings.push(`Removes @${removedBroadcasts.join(', @')}.`);
+
+  return warnings;
+};
@@ -0,0 +1,173 @@
+
+import { SchedulerState } from '../types';
+
+/**
+ * Slack Web API rate-limit tiers. `post` covers chat.postMessage, which Slack limits
+ * separately at roughly one message per second per channel, so its calls are paced per channel.
+ */
+export type SlackApiTier = 1 | 2 | 3 | 4 | 'post';
+
+// Calls per minute Slack guarantees for each tier
+const TIER_LIMITS: Record<SlackApiTier, number> = {
+  1: 1,
+  2: 20,
+  3: 50,
+  4: 100,
+  post: 60,
+};
+
+const ENDPOINT_TIERS: Record<string, SlackApiTier> = {
+  'auth.test': 4,
+  'conversations.list': 2,
+  'users.info': 4,
+  'users.list': 2,
+  'chat.postMessage': 'post',
+  'files.getUploadURLExternal': 4,
+  'files.completeUploadExternal': 4,
+};
+
+const DEFAULT_TIER: SlackApiTier = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+interface TierLane {
+  tier: SlackApiTier;
+  queue: Array<() => void>;
+  nextSlot: number;
+  pausedUntil: number;
+  pumping: boolean;
+}
+
+type Listener = (state: SchedulerState) => void;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export const resolveTier = (endpoint: string): SlackApiTier => {
+  const method = endpoint.split('?')[0];
+  return ENDPOINT_TIERS[method] ?? DEFAULT_TIER;
+};
+
+// A tier's calls share one lane unless a scope (such as the channel of a post) splits them up
+export const laneKey = (tier: SlackApiTier, scope?: string) => (scope ? `${tier}:${scope}` : String(tier));
+
+/**
+ * Queues Slack API calls per rate-limit tier, spacing them to stay under each tier's
+ * budget and pausing a tier entirely while Slack has asked us to back off.
+ * Calls given a `scope` get their own lane within the tier, with the tier's budget each.
+ */
+export class RequestScheduler {
+  private lanes = new Map<string, TierLane>();
+  private listeners = new Set<Listener>();
+  private inFlight = 0;
+  private retrying = 0;
+
+  run<T>(tier: SlackApiTier, task: () => Promise<T>, scope?: string): Promise<T> {
+    const lane = this.getLane(tier, scope);
+    return new Promise<T>((resolve, reject) => {
+      lane.queue.push(() => {
+        this.inFlight++;
+        this.notify();
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.inFlight--;
+            this.notify();
+          });
+      });
+      this.notify();
+      this.pump(lane);
+    });
+  }
+
+  /**
+   * Holds every queued call for a tier (or one scope of it) until the Retry-After window has passed.
+   */
+  pause(tier: SlackApiTier, ms: number, scope?: string) {
+    const lane = this.getLane(tier, scope);
+    lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + ms);
+    this.notify();
+    // Re-emit once the window closes so subscribers can clear their "waiting" state
+    setTimeout(() => this.notify(), ms + 10);
+  }
+
+  /**
+   * Waits out an exponential backoff with jitter before the caller retries.
+   */
+  async backoff(attempt: number): Promise<void> {
+    const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    this.retrying++;
+    this.notify();
+    try {
+      await sleep(delay);
+    } finally {
+      this.retrying--;
+      this.notify();
+    }
+  }
+
+  getState(): SchedulerState {
+    const now = Date.now();
+    let queued = 0;
+    let rateLimitedUntil: number | null = null;
+    const pausedLanes: string[] = [];
+    this.lanes.forEach((lane, key) => {
+      queued += lane.queue.length;
+      if (lane.pausedUntil > now) {
+        rateLimitedUntil = Math.max(rateLimitedUntil ?? 0, lane.pausedUntil);
+        pausedLanes.push(key);
+      }
+    });
+    return {
+      pending: queued + this.inFlight,
+      rateLimitedUntil,
+      pausedLanes,
+      retrying: this.retrying > 0,
+    };
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getLane(tier: SlackApiTier, scope?: string): TierLane {
+    const key = laneKey(tier, scope);
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { tier, queue: [], nextSlot: 0, pausedUntil: 0, pumping: false };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private async pump(lane: TierLane) {
+    if (lane.pumping) return;
+    lane.pumping = true;
+    const interval = 60000 / TIER_LIMITS[lane.tier];
+
+    try {
+      while (lane.queue.length > 0) {
+        // Re-check after every sleep: a 429 may have extended the pause meanwhile
+        const wait = Math.max(lane.nextSlot, lane.pausedUntil) - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+          continue;
+        }
+        lane.nextSlot = Date.now() + interval;
+        const start = lane.queue.shift()!;
+        start();
+      }
+    } finally {
+      lane.pumping = false;
+    }
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
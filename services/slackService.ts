@@ -1,45 +1,165 @@
 
-import { SlackChannel, SlackMessageResponse } from '../types';
+import {
+  SlackChannel,
+  SlackMessage,
+  SlackUser,
+  SlackMessagePage,
+  SlackMessageResponse,
+  SlackScheduledMessage,
+  SlackScheduleResponse,
+  SlackBlock,
+  SlackIdentity,
+  SendMessageOptions,
+  SchedulerState,
+} from '../types';
+import { RequestScheduler, resolveTier } from './requestScheduler';
 
 const SLACK_API_BASE = 'https://slack.com/api';
+const MAX_RETRIES = 4;
+
+// Message metadata type that carries an outbox ID on every direct send
+export const OUTBOX_EVENT_TYPE = 'outbox_message';
+
+/**
+ * Slack-level errors from a server-side failure. Slack may have carried out the call before failing,
+ * so only reads retry them here; a write surfaces the error and the caller decides whether resending is safe.
+ */
+export const TRANSIENT_ERRORS = new Set(['internal_error', 'fatal_error', 'service_unavailable', 'request_timeout']);
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+interface HistoryOptions {
+  cursor?: string;
+  oldest?: string;
+  limit?: number;
+}
+
+const buildQuery = (params: QueryParams) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([name, value]) => {
+    if (value !== undefined) query.set(name, String(value));
+  });
+  return query.toString();
+};
+
+// chat.postMessage and chat.scheduleMessage share the same message fields
+const buildMessagePayload = (channelId: string, text: string, options: SendMessageOptions) => ({
+  channel: channelId,
+  text,
+  blocks: options.blocks?.length ? options.blocks : undefined,
+  thread_ts: options.threadTs,
+  // Slack ignores reply_broadcast outside a thread, so only send it alongside thread_ts
+  reply_broadcast: options.threadTs ? options.replyBroadcast : undefined,
+  metadata: options.outboxId
+    ? { event_type: OUTBOX_EVENT_TYPE, event_payload: { outbox_id: options.outboxId } }
+    : undefined,
+});
+
+// The upload URL is outside the Web API, so fetch's lack of upload progress forces XHR here
+const uploadWithProgress = (url: string, file: File, onProgress: (fraction: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve();
+      } else {
+        reject(new Error(`HTTP_${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('CORS_ERROR'));
+    xhr.send(file);
+  });
 
 export class SlackService {
   private token: string;
   private proxyUrl: string | null;
+  private baseUrl: string;
+  private scheduler = new RequestScheduler();
 
-  constructor(token: string, proxyUrl: string | null = null) {
+  /**
+   * `baseUrl` points the service at another Web API host, such as the fake Slack API the tests run against.
+   */
+  constructor(token: string, proxyUrl: string | null = null, baseUrl: string = SLACK_API_BASE) {
     this.token = token.trim();
     this.proxyUrl = proxyUrl;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Sends a Slack API call through the tier scheduler, retrying rate limits and
+   * transient server failures before surfacing an error to the caller. Writes (POSTs)
+   * only retry rate limits, which Slack rejects before doing any work, so they never double-post.
+   */
+  private async request(endpoint: string, options: RequestInit = {}, scope?: string): Promise<any> {
+    return (await this.send(endpoint, options, scope)).data;
+  }
+
+  // The retry loop behind request(), also handing back the headers of the successful response
+  private async send(endpoint: string, options: RequestInit = {}, scope?: string): Promise<{ data: any; headers: Headers }> {
+    const tier = resolveTier(endpoint);
+    const isWrite = options.method === 'POST';
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.scheduler.run(tier, () => this.dispatch(endpoint, options), scope);
+      const canRetry = attempt < MAX_RETRIES;
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        if (!canRetry) throw new Error('ratelimited');
+        if (retryAfter > 0) {
+          this.scheduler.pause(tier, retryAfter * 1000, scope);
+        } else {
+          await this.scheduler.backoff(attempt);
+        }
+        continue;
+      }
+
+      if (response.status >= 500) {
+        if (!canRetry || isWrite) throw new Error(`HTTP_${response.status}`);
+        await this.scheduler.backoff(attempt);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP_${response.status}`);
+      }
+
+      const data = await response.json();
+      
+      if (!data.ok) {
+        const retryable = data.error === 'ratelimited' || (!isWrite && TRANSIENT_ERRORS.has(data.error));
+        if (canRetry && retryable) {
+          await this.scheduler.backoff(attempt);
+          continue;
+        }
+        throw new Error(data.error || 'slack_api_error');
+      }
+      return { data, headers: response.headers };
+    }
   }
 
-  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
+  private async dispatch(endpoint: string, options: RequestInit): Promise<Response> {
     const headers = {
       'Authorization': `Bearer ${this.token}`,
       'Content-Type': 'application/json; charset=utf-8',
       ...options.headers,
     };
 
-    const targetUrl = `${SLACK_API_BASE}/${endpoint}`;
+    const targetUrl = `${this.baseUrl}/${endpoint}`;
     
-    // corsproxy.io uses a simple append format: https://corsproxy.io/?{url}
+    // Relays take the target as everything after `?` (`{relay}?{url}`), as relay/slackRelay.mjs and corsproxy.io do
     const finalUrl = this.proxyUrl ? `${this.proxyUrl}${targetUrl}` : targetUrl;
 
     try {
-      const response = await fetch(finalUrl, {
+      return await fetch(finalUrl, {
         ...options,
         headers,
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP_${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.ok) {
-        throw new Error(data.error || 'slack_api_error');
-      }
-      return data;
     } catch (error: any) {
       if (error instanceof TypeError) {
         // This usually indicates a CORS block or total lack of internet
@@ -49,22 +169,289 @@ export class SlackService {
     }
   }
 
-  async fetchChannels(): Promise<SlackChannel[]> {
-    const data = await this.request('conversations.list?types=public_channel,private_channel&limit=100');
-    return data.channels || [];
+  /**
+   * Subscribes to queue and rate-limit state so the UI can explain delays.
+   */
+  onQueueChange(listener: (state: SchedulerState) => void): () => void {
+    return this.scheduler.subscribe(listener);
+  }
+
+  /**
+   * Walks a cursor-paginated list endpoint, yielding one page of items at a time.
+   * `key` is the response field holding the items (e.g. `channels`, `members`).
+   */
+  async *paginate<T>(endpoint: string, key: string, params: QueryParams = {}): AsyncGenerator<T[]> {
+    let cursor: string | undefined;
+    do {
+      const data = await this.request(`${endpoint}?${buildQuery({ ...params, cursor })}`);
+      yield (data[key] || []) as T[];
+
+      // Slack signals the last page with an empty string rather than omitting the field
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Streams every channel in the workspace page by page so callers can render as they arrive.
+   */
+  streamChannels(excludeArchived: boolean = true): AsyncGenerator<SlackChannel[]> {
+    return this.paginate<SlackChannel>('conversations.list', 'channels', {
+      types: 'public_channel,private_channel',
+      exclude_archived: excludeArchived,
+      limit: 200,
+    });
+  }
+
+  async fetchChannels(excludeArchived: boolean = true): Promise<SlackChannel[]> {
+    const channels: SlackChannel[] = [];
+    for await (const page of this.streamChannels(excludeArchived)) {
+      channels.push(...page);
+    }
+    return channels;
+  }
+
+  /**
+   * Fetches a channel's current details, including its member count, which conversations.list may leave stale.
+   */
+  async fetchChannelInfo(channelId: string): Promise<SlackChannel> {
+    const data = await this.request(`conversations.info?${buildQuery({ channel: channelId, include_num_members: true })}`);
+    return data.channel;
+  }
+
+  /**
+   * Joins a public channel so messages can be posted to it. Private channels need an invite instead.
+   */
+  async joinChannel(channelId: string): Promise<SlackChannel> {
+    const data = await this.request('conversations.join', {
+      method: 'POST',
+      body: JSON.stringify({ channel: channelId }),
+    });
+    return data.channel;
+  }
+
+  async leaveChannel(channelId: string): Promise<void> {
+    await this.request('conversations.leave', {
+      method: 'POST',
+      body: JSON.stringify({ channel: channelId }),
+    });
+  }
+
+  /**
+   * Fetches one page of channel history, newest first as Slack returns it.
+   * Pass `oldest` to poll only for messages posted after a known timestamp.
+   */
+  async fetchHistory(channelId: string, options: HistoryOptions = {}): Promise<SlackMessagePage> {
+    const data = await this.request(`conversations.history?${buildQuery({
+      channel: channelId,
+      limit: options.limit ?? 50,
+      cursor: options.cursor,
+      oldest: options.oldest,
+      inclusive: options.oldest ? false : undefined,
+    })}`);
+    return {
+      messages: data.messages || [],
+      nextCursor: data.has_more ? data.response_metadata?.next_cursor || null : null,
+    };
+  }
+
+  /**
+   * Streams channel history page by page, newest first, optionally stopping at `oldest`.
+   */
+  streamHistory(channelId: string, oldest?: string): AsyncGenerator<SlackMessage[]> {
+    return this.paginate<SlackMessage>('conversations.history', 'messages', {
+      channel: channelId,
+      oldest,
+      limit: 200,
+    });
   }
 
-  async sendMessage(channelId: string, text: string): Promise<SlackMessageResponse> {
+  /**
+   * Fetches one page of a thread. The parent message is always the first entry.
+   */
+  async fetchReplies(channelId: string, threadTs: string, options: HistoryOptions = {}): Promise<SlackMessagePage> {
+    const data = await this.request(`conversations.replies?${buildQuery({
+      channel: channelId,
+      ts: threadTs,
+      limit: options.limit ?? 100,
+      cursor: options.cursor,
+      oldest: options.oldest,
+      inclusive: options.oldest ? false : undefined,
+    })}`);
+    return {
+      messages: data.messages || [],
+      nextCursor: data.has_more ? data.response_metadata?.next_cursor || null : null,
+    };
+  }
+
+  /**
+   * Streams a whole thread page by page, parent message first.
+   */
+  streamReplies(channelId: string, threadTs: string): AsyncGenerator<SlackMessage[]> {
+    return this.paginate<SlackMessage>('conversations.replies', 'messages', {
+      channel: channelId,
+      ts: threadTs,
+      limit: 200,
+    });
+  }
+
+  /**
+   * Posts a message. Posting is paced per channel, so sends to different channels don't queue behind each other.
+   */
+  async sendMessage(channelId: string, text: string, options: SendMessageOptions = {}): Promise<SlackMessageResponse> {
     return await this.request('chat.postMessage', {
+      method: 'POST',
+      body: JSON.stringify(buildMessagePayload(channelId, text, options)),
+    }, channelId);
+  }
+
+  /**
+   * Queues a message for Slack to post at `postAt` (unix seconds, at most 120 days out).
+   */
+  async scheduleMessage(channelId: string, text: string, postAt: number, options: SendMessageOptions = {}): Promise<SlackScheduleResponse> {
+    return await this.request('chat.scheduleMessage', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...buildMessagePayload(channelId, text, options),
+        post_at: postAt,
+      }),
+    });
+  }
+
+  async fetchScheduledMessages(channelId?: string): Promise<SlackScheduledMessage[]> {
+    const scheduled: SlackScheduledMessage[] = [];
+    for await (const page of this.paginate<SlackScheduledMessage>('chat.scheduledMessages.list', 'scheduled_messages', {
+      channel: channelId,
+      limit: 100,
+    })) {
+      scheduled.push(...page);
+    }
+    return scheduled.sort((a, b) => a.post_at - b.post_at);
+  }
+
+  async deleteScheduledMessage(channelId: string, scheduledMessageId: string): Promise<void> {
+    await this.request('chat.deleteScheduledMessage', {
+      method: 'POST',
+      body: JSON.stringify({
+        channel: channelId,
+        scheduled_message_id: scheduledMessageId,
+      }),
+    });
+  }
+
+  async updateMessage(channelId: string, ts: string, text: string, blocks?: SlackBlock[]): Promise<SlackMessageResponse> {
+    return await this.request('chat.update', {
       method: 'POST',
       body: JSON.stringify({
         channel: channelId,
+        ts,
         text,
+        // An empty array clears blocks Slack would otherwise keep from the original post
+        blocks: blocks ?? [],
+      }),
+    });
+  }
+
+  async deleteMessage(channelId: string, ts: string): Promise<void> {
+    await this.request('chat.delete', {
+      method: 'POST',
+      body: JSON.stringify({
+        channel: channelId,
+        ts,
+      }),
+    });
+  }
+
+  /**
+   * Checks whether a message is still present, looking inside the thread for replies.
+   */
+  async messageExists(channelId: string, ts: string, threadTs?: string): Promise<boolean> {
+    const window = { channel: channelId, latest: ts, oldest: ts, inclusive: true, limit: 1 };
+    const data = threadTs
+      ? await this.request(`conversations.replies?${buildQuery({ ...window, ts: threadTs })}`)
+      : await this.request(`conversations.history?${buildQuery(window)}`);
+    return (data.messages || []).some((m: SlackMessage) => m.ts === ts);
+  }
+
+  /**
+   * Uploads one file through Slack's external upload flow and returns its file ID.
+   * The file stays private until `completeUploads` shares it into a channel.
+   */
+  async uploadFile(file: File, onProgress: (fraction: number) => void): Promise<string> {
+    const ticket = await this.request(`files.getUploadURLExternal?${buildQuery({
+      filename: file.name,
+      length: file.size,
+    })}`);
+
+    const uploadUrl = this.proxyUrl ? `${this.proxyUrl}${ticket.upload_url}` : ticket.upload_url;
+    await uploadWithProgress(uploadUrl, file, onProgress);
+    return ticket.file_id;
+  }
+
+  /**
+   * Shares previously uploaded files into a channel, with the message text as the initial comment.
+   */
+  async completeUploads(channelId: string, files: { id: string; title: string }[], initialComment: string, options: SendMessageOptions = {}): Promise<void> {
+    await this.request('files.completeUploadExternal', {
+      method: 'POST',
+      body: JSON.stringify({
+        files,
+        channel_id: channelId,
+        initial_comment: initialComment || undefined,
+        blocks: options.blocks?.length ? options.blocks : undefined,
+        thread_ts: options.threadTs,
       }),
     });
   }
 
-  async testConnection(): Promise<any> {
+  /**
+   * Streams the workspace member list page by page, including bots and deactivated accounts.
+   */
+  streamUsers(): AsyncGenerator<SlackUser[]> {
+    return this.paginate<SlackUser>('users.list', 'members', { limit: 200 });
+  }
+
+  /**
+   * Looks for a message posted with the given outbox ID since `oldest` (unix seconds), in the channel
+   * or in a thread. Used before re-sending so an attempt that reached Slack isn't posted twice, so it
+   * pages all the way back to `oldest` however busy the channel has been.
+   */
+  async findOutboxMessage(channelId: string, outboxId: string, oldest: string, threadTs?: string): Promise<SlackMessage | null> {
+    const method = threadTs ? 'conversations.replies' : 'conversations.history';
+    const pages = this.paginate<SlackMessage>(method, 'messages', {
+      channel: channelId,
+      ts: threadTs,
+      oldest,
+      limit: 200,
+      include_all_metadata: true,
+    });
+    for await (const page of pages) {
+      const match = page.find(m =>
+        m.metadata?.event_type === OUTBOX_EVENT_TYPE && m.metadata.event_payload?.outbox_id === outboxId
+      );
+      if (match) return match;
+    }
+    return null;
+  }
+
+  async fetchUser(userId: string): Promise<SlackUser> {
+    const data = await this.request(`users.info?${buildQuery({ user: userId })}`);
+    return data.user;
+  }
+
+  async testConnection(): Promise<SlackIdentity> {
     return await this.request('auth.test');
   }
+
+  /**
+   * Calls auth.test and reads the granted scopes from the x-oauth-scopes header. Scopes are null when
+   * the header isn't visible, e.g. because a proxy or the browser's CORS rules hid it.
+   */
+  async inspectToken(): Promise<{ identity: SlackIdentity; scopes: string[] | null }> {
+    const { data, headers } = await this.send('auth.test');
+    const header = headers.get('x-oauth-scopes');
+    return {
+      identity: data,
+      scopes: header === null ? null : header.split(',').map(scope => scope.trim()).filter(Boolean),
+    };
+  }
 }
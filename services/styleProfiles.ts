@@ -0,0 +1,72 @@
+
+import { EmojiPolicy, StyleProfile } from '../types';
+
+// The original Elite / Warm / Brevity tones, kept as read-only profiles
+export const BUILT_IN_PROFILES: StyleProfile[] = [
+  {
+    id: 'builtin-professional',
+    name: 'Elite',
+    instructions: 'Make the message more professional. Maintain the original intent but improve clarity, grammar, and impact.',
+    examples: [],
+    bannedPhrases: [],
+    emojiPolicy: 'none',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-friendly',
+    name: 'Warm',
+    instructions: 'Make the message more friendly and approachable. Maintain the original intent but improve clarity, grammar, and impact.',
+    examples: [],
+    bannedPhrases: [],
+    emojiPolicy: 'sparing',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-concise',
+    name: 'Brevity',
+    instructions: 'Make the message more concise. Cut filler while keeping every fact and request from the original.',
+    examples: [],
+    bannedPhrases: [],
+    emojiPolicy: 'none',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PROFILE_ID = BUILT_IN_PROFILES[0].id;
+
+const EMOJI_RULES: Record<EmojiPolicy, string> = {
+  none: 'Do not use emoji.',
+  sparing: 'Use at most one or two emoji, only where they add warmth.',
+  expressive: 'Emoji are welcome where they fit the tone.',
+};
+
+export const createProfile = (): StyleProfile => ({
+  id: crypto.randomUUID(),
+  name: 'New Style',
+  instructions: '',
+  examples: [],
+  bannedPhrases: [],
+  emojiPolicy: 'sparing',
+});
+
+/**
+ * Turns a profile into the style guidance section of a refinement prompt.
+ */
+export const describeProfile = (profile: StyleProfile): string => {
+  const lines = [
+    `Style "${profile.name}": ${profile.instructions.trim() || 'Improve clarity, grammar, and impact.'}`,
+    EMOJI_RULES[profile.emojiPolicy],
+  ];
+  if (profile.bannedPhrases.length > 0) {
+    lines.push(`Never use these phrases: ${profile.bannedPhrases.map(p => `"${p}"`).join(', ')}.`);
+  }
+  if (profile.examples.length > 0) {
+    lines.push('Examples of messages written in this style:');
+    profile.examples.forEach(example => lines.push(`---\n${example}`));
+    lines.push('---');
+  }
+  return lines.join('\n');
+};
+
+export const resolveProfile = (profiles: StyleProfile[], id: string | undefined) =>
+  profiles.find(p => p.id === id) || profiles[0] || BUILT_IN_PROFILES[0];
@@ -0,0 +1,96 @@
+import { ConversationSummary, SlackMessage } from '../types';
+import { resolveMentions } from './userDirectory';
+
+// Upper bound on messages read for one summary so a busy channel can't run up an unbounded bill
+export const MAX_SUMMARY_MESSAGES = 1000;
+
+// Transcript characters per model call; well under the context window to leave room for the prompt
+export const SUMMARY_CHUNK_CHARS = 24000;
+
+export const SUMMARY_WINDOWS = [24, 72, 168];
+
+export const EMPTY_SUMMARY: ConversationSummary = { highlights: [], decisions: [], openQuestions: [], actionItems: [] };
+
+const SECTIONS: { key: keyof ConversationSummary; title: string }[] = [
+  { key: 'highlights', title: 'Highlights' },
+  { key: 'decisions', title: 'Decisions' },
+  { key: 'openQuestions', title: 'Open Questions' },
+  { key: 'actionItems', title: 'Action Items' },
+];
+
+export const summarySections = (summary: ConversationSummary) =>
+  SECTIONS.map(section => ({ ...section, items: summary[section.key] }));
+
+export const isEmptySummary = (summary: ConversationSummary) =>
+  SECTIONS.every(section => summary[section.key].length === 0);
+
+export const formatWindow = (hours: number) => hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+
+/**
+ * Drains paginated message pages until the stream ends or `limit` messages have been read.
+ */
+export const collectMessages = async (pages: AsyncGenerator<SlackMessage[]>, limit: number = MAX_SUMMARY_MESSAGES) => {
+  const messages: SlackMessage[] = [];
+  for await (const page of pages) {
+    messages.push(...page);
+    if (messages.length >= limit) break;
+  }
+  return messages.slice(0, limit);
+};
+
+/**
+ * Renders messages as chronological transcript lines for the model, using display names where known.
+ */
+export const formatTranscript = (messages: SlackMessage[], names: Record<string, string> = {}): string[] =>
+  [...messages]
+    .filter(m => m.text?.trim())
+    .sort((a, b) => Number(a.ts) - Number(b.ts))
+    .map(m => {
+      const time = new Date(Number(m.ts) * 1000).toISOString().slice(0, 16).replace('T', ' ');
+      const author = (m.user && names[m.user]) || m.username || m.user || m.bot_id || 'unknown';
+      const replies = m.reply_count ? ` (${m.reply_count} replies)` : '';
+      return `[${time}] ${author}: ${resolveMentions(m.text, names).replace(/\s*\n\s*/g, ' ')}${replies}`;
+    });
+
+/**
+ * Packs transcript lines into chunks of at most `maxChars`, truncating any single oversized line.
+ */
+export const chunkTranscript = (lines: string[], maxChars: number = SUMMARY_CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  lines.forEach(line => {
+    const entry = line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line;
+    if (current && current.length + entry.length + 1 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${entry}` : entry;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Coerces untrusted model output into a summary, dropping anything that isn't a non-empty string.
+ */
+export const normalizeSummary = (value: any): ConversationSummary => {
+  const list = (items: unknown) => Array.isArray(items)
+    ? items.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim())
+    : [];
+  return {
+    highlights: list(value?.highlights),
+    decisions: list(value?.decisions),
+    openQuestions: list(value?.openQuestions),
+    actionItems: list(value?.actionItems),
+  };
+};
+
+/**
+ * Formats a summary as Slack mrkdwn for posting back into the conversation.
+ */
+export const summaryToMrkdwn = (summary: ConversationSummary, heading: string) => [
+  `*${heading}*`,
+  ...summarySections(summary)
+    .filter(section => section.items.length > 0)
+    .map(section => `\n*${section.title}*\n${section.items.map(item => `• ${item}`).join('\n')}`),
+].join('\n');
@@ -0,0 +1,86 @@
+import { MessageTemplate } from '../types';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const LIBRARY_VERSION = 1;
+
+// Seeded into an empty library so the feature is useful before anyone writes their own
+export const STARTER_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'starter-release-notes',
+    name: 'Release Notes',
+    body: '*Release {{version}}* is live :rocket:\n\n*Highlights*\n• {{highlights}}\n\n*Fixes*\n• {{fixes}}\n\nFull changelog: {{changelog_url}}',
+  },
+  {
+    id: 'starter-incident-update',
+    name: 'Incident Update',
+    body: ':rotating_light: *Incident update: {{title}}*\n*Status:* {{status}}\n*Impact:* {{impact}}\n*Next update:* {{next_update}}\n\n{{details}}',
+  },
+  {
+    id: 'starter-oncall-handoff',
+    name: 'On-call Handoff',
+    body: ':wave: On-call handoff from {{from}} to {{to}}\n\n*Open issues*\n• {{open_issues}}\n\n*Watch out for*\n• {{watch_items}}',
+  },
+];
+
+export const createTemplate = (): MessageTemplate => ({
+  id: crypto.randomUUID(),
+  name: 'New Template',
+  body: '',
+});
+
+/**
+ * Variable names in the order they first appear, without duplicates.
+ */
+export const extractVariables = (body: string): string[] =>
+  [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+/**
+ * Substitutes every `{{variable}}`; placeholders without a value are left as typed.
+ */
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name) => values[name] ?? placeholder);
+
+/**
+ * Turns a variable name like `next_update` into a form label like "Next update".
+ */
+export const humanizeVariable = (name: string) => {
+  const spaced = name.replace(/[_.-]+/g, ' ').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+};
+
+export const exportLibrary = (templates: MessageTemplate[]) =>
+  JSON.stringify({ version: LIBRARY_VERSION, templates }, null, 2);
+
+/**
+ * Parses an exported library (or a bare array of templates). Entries without a name and body are
+ * skipped; channel and style references are kept even if they don't exist in this workspace.
+ */
+export const parseLibrary = (json: string): MessageTemplate[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('INVALID_JSON');
+  }
+  const entries = Array.isArray(parsed) ? parsed : parsed?.templates;
+  if (!Array.isArray(entries)) throw new Error('INVALID_LIBRARY');
+
+  return entries
+    .filter((entry: any) => typeof entry?.name === 'string' && entry.name.trim() && typeof entry?.body === 'string')
+    .map((entry: any) => ({
+      id: typeof entry.id === 'string' && entry.id ? entry.id : crypto.randomUUID(),
+      name: entry.name.trim(),
+      body: entry.body,
+      defaultChannelId: typeof entry.defaultChannelId === 'string' ? entry.defaultChannelId : undefined,
+      styleProfileId: typeof entry.styleProfileId === 'string' ? entry.styleProfileId : undefined,
+    }));
+};
+
+/**
+ * Adds imported templates to the library. An import replaces an existing template with the same ID,
+ * so re-importing a teammate's updated export doesn't create duplicates.
+ */
+export const mergeTemplates = (existing: MessageTemplate[], imported: MessageTemplate[]) => {
+  const importedIds = new Set(imported.map(t => t.id));
+  return [...existing.filter(t => !importedIds.has(t.id)), ...imported];
+};
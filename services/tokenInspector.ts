@@ -0,0 +1,48 @@
+import { SlackIdentity, SlackTokenType, TokenInspection } from '../types';
+
+const TOKEN_PATTERN = /\b(?:xox[abp]|xapp)-[A-Za-z0-9-]+/;
+
+// Each feature works when any one of its scopes is granted
+const FEATURE_SCOPES: { feature: string; scopes: string[] }[] = [
+  { feature: 'Channel list', scopes: ['channels:read', 'groups:read'] },
+  { feature: 'Message history and threads', scopes: ['channels:history', 'groups:history'] },
+  { feature: 'Sending, editing and scheduling messages', scopes: ['chat:write'] },
+  { feature: 'File attachments', scopes: ['files:write'] },
+  { feature: 'Joining public channels', scopes: ['channels:join'] },
+  { feature: 'Mentions and member names', scopes: ['users:read'] },
+];
+
+/**
+ * Finds the first Slack token in pasted or imported text, so a line like `SLACK_TOKEN=xoxb-...` or a JSON
+ * config file works as well as the bare token.
+ */
+export const extractToken = (text: string): string | null => text.match(TOKEN_PATTERN)?.[0] ?? null;
+
+export const tokenType = (token: string): SlackTokenType => {
+  const prefix = token.trim().split('-')[0];
+  switch (prefix) {
+    case 'xoxb': return 'bot';
+    case 'xoxp': return 'user';
+    case 'xoxa':
+    case 'xapp': return 'app';
+    default: return 'unknown';
+  }
+};
+
+/**
+ * Features that can't work with the granted scopes. Unknown scopes report nothing rather than guessing.
+ */
+export const unavailableFeatures = (scopes: string[] | null): string[] => {
+  if (!scopes) return [];
+  const granted = new Set(scopes);
+  return FEATURE_SCOPES
+    .filter(({ scopes: required }) => !required.some(scope => granted.has(scope)))
+    .map(({ feature }) => feature);
+};
+
+export const buildInspection = (token: string, identity: SlackIdentity, scopes: string[] | null): TokenInspection => ({
+  identity,
+  type: tokenType(token),
+  scopes,
+  unavailable: unavailableFeatures(scopes),
+});
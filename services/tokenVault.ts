@@ -0,0 +1,56 @@
+import { EncryptedSecret, TokenVault } from '../types';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_PLAINTEXT = 'slack-connect-vault';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (key: CryptoKey, plaintext: string): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Decrypts a secret; AES-GCM authentication fails with the wrong key, which surfaces as WRONG_PASSPHRASE.
+ */
+export const decryptSecret = async (key: CryptoKey, secret: EncryptedSecret): Promise<string> => {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data));
+    return decoder.decode(data);
+  } catch {
+    throw new Error('WRONG_PASSPHRASE');
+  }
+};
+
+/**
+ * Creates a vault for a new passphrase. The key stays in memory; only the salt and a check value are stored.
+ */
+export const createVault = async (passphrase: string): Promise<{ vault: TokenVault; key: CryptoKey }> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error('PASSPHRASE_TOO_SHORT');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  return { vault: { salt: toBase64(salt), check: await encryptSecret(key, CHECK_PLAINTEXT) }, key };
+};
+
+export const unlockVault = async (vault: TokenVault, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(vault.salt));
+  if (await decryptSecret(key, vault.check) !== CHECK_PLAINTEXT) throw new Error('WRONG_PASSPHRASE');
+  return key;
+};
@@ -0,0 +1,87 @@
+import { SlackMessage, SlackUser } from '../types';
+import { SlackService } from './slackService';
+
+const MENTION_PATTERN = /<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g;
+
+export const displayName = (user: SlackUser) =>
+  user.profile?.display_name || user.profile?.real_name || user.real_name || user.name || user.id;
+
+/**
+ * Every user ID that authored or was mentioned in the given messages.
+ */
+export const collectUserIds = (messages: SlackMessage[]) => {
+  const ids = new Set<string>();
+  messages.forEach(m => {
+    if (m.user) ids.add(m.user);
+    for (const match of (m.text || '').matchAll(MENTION_PATTERN)) ids.add(match[1]);
+  });
+  return [...ids];
+};
+
+/**
+ * Replaces `<@U123>` mention tokens with readable `@name` text.
+ */
+export const resolveMentions = (text: string, names: Record<string, string>) =>
+  text.replace(MENTION_PATTERN, (token, id) => names[id] ? `@${names[id]}` : token);
+
+/**
+ * Caches user lookups for the lifetime of a connection. Failed lookups are remembered too,
+ * so a deleted or inaccessible user isn't re-requested on every call.
+ */
+export class UserDirectory {
+  private users = new Map<string, SlackUser | null>();
+  private inflight = new Map<string, Promise<SlackUser | null>>();
+  private directory: Promise<SlackUser[]> | null = null;
+
+  constructor(private service: SlackService) {}
+
+  private lookup(userId: string): Promise<SlackUser | null> {
+    if (this.users.has(userId)) return Promise.resolve(this.users.get(userId)!);
+    const pending = this.inflight.get(userId);
+    if (pending) return pending;
+
+    const request = this.service.fetchUser(userId)
+      .catch(() => null)
+      .then(user => {
+        this.users.set(userId, user);
+        this.inflight.delete(userId);
+        return user;
+      });
+    this.inflight.set(userId, request);
+    return request;
+  }
+
+  /**
+   * Loads the full member list once per connection and caches every entry for later lookups.
+   * Deactivated accounts and bots are cached but left out of the returned list.
+   */
+  async loadAll(): Promise<SlackUser[]> {
+    if (!this.directory) {
+      this.directory = (async () => {
+        const members: SlackUser[] = [];
+        for await (const page of this.service.streamUsers()) {
+          page.forEach(user => this.users.set(user.id, user));
+          members.push(...page);
+        }
+        return members.filter(user => !user.deleted && !user.is_bot && user.id !== 'USLACKBOT');
+      })();
+      // Let a failed load be retried on the next call
+      this.directory.catch(() => {
+        this.directory = null;
+      });
+    }
+    return this.directory;
+  }
+
+  /**
+   * Resolves user IDs to display names. IDs that can't be looked up are left out of the result.
+   */
+  async resolveNames(userIds: string[]): Promise<Record<string, string>> {
+    const users = await Promise.all(userIds.map(id => this.lookup(id)));
+    const names: Record<string, string> = {};
+    users.forEach(user => {
+      if (user) names[user.id] = displayName(user);
+    });
+    return names;
+  }
+}
@@ -0,0 +1,77 @@
+
+export type DiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; id: number; removed: string; added: string };
+
+// Beyond this many LCS cells the whole text is treated as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words and the whitespace between them are separate tokens so spacing is preserved exactly
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+/**
+ * Computes a word-level diff between a draft and a revision. Adjacent insertions and
+ * deletions are merged into a single `change` segment that can be accepted or rejected as a unit.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return before === after ? [{ type: 'equal', text: before }] : [{ type: 'change', id: 0, removed: before, added: after }];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i:] and b[j:]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let removed = '';
+  let added = '';
+  let nextId = 0;
+
+  const flushChange = () => {
+    if (removed || added) segments.push({ type: 'change', id: nextId++, removed, added });
+    removed = '';
+    added = '';
+  };
+
+  const pushEqual = (text: string) => {
+    flushChange();
+    const last = segments[segments.length - 1];
+    if (last?.type === 'equal') last.text += text;
+    else segments.push({ type: 'equal', text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      pushEqual(a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added += b[j++];
+    } else {
+      removed += a[i++];
+    }
+  }
+  flushChange();
+
+  return segments;
+};
+
+/**
+ * Rebuilds text from a diff, taking the revision for accepted changes and the draft for the rest.
+ */
+export const applyDiff = (segments: DiffSegment[], accepted: Set<number>): string =>
+  segments
+    .map(segment => segment.type === 'equal' ? segment.text : accepted.has(segment.id) ? segment.added : segment.removed)
+    .join('');
+
+export const changeIds = (segments: DiffSegment[]) =>
+  segments.flatMap(segment => segment.type === 'change' ? [segment.id] : []);
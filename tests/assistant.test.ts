@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { AssistantService } from '../services/assistant';
+import { CANDIDATE_SEPARATOR, splitCandidates } from '../services/candidates';
+import { MockProvider } from '../services/mockProvider';
+import { BUILT_IN_PROFILES, describeProfile } from '../services/styleProfiles';
+
+describe('AssistantService', () => {
+  it('splits candidates only on the sentinel line', () => {
+    const text = `Agenda\n---\nShip it\n${CANDIDATE_SEPARATOR}\nAgenda:\n---\nShip it today`;
+
+    expect(splitCandidates(text)).toEqual(['Agenda\n---\nShip it', 'Agenda:\n---\nShip it today']);
+  });
+
+  it('keeps a draft containing a Markdown rule in one piece', async () => {
+    const draft = 'Release notes\n---\nfixed login';
+    const result = await new AssistantService(new MockProvider()).streamCandidates(draft);
+
+    expect(result.status).toBe('complete');
+    expect(result.candidates).toHaveLength(3);
+    expect(result.candidates[0]).toBe('Release notes\n---\nfixed login.');
+  });
+
+  it('does not mistake style example delimiters for candidates', () => {
+    const profile = { ...BUILT_IN_PROFILES[0], examples: ['First example', 'Second example'] };
+
+    expect(splitCandidates(describeProfile(profile))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { browseChannels, fuzzyScore } from '../services/channelBrowser';
+import { fakeChannel } from './fakeSlackApi';
+
+const channels = [
+  fakeChannel('C1', 'general', { num_members: 40 }),
+  fakeChannel('C2', 'eng-releases', { num_members: 12 }),
+  fakeChannel('C3', 'engineering', { num_members: 25 }),
+  fakeChannel('C4', 'old-launch', { num_members: 90, is_archived: true }),
+];
+
+const names = (list: { name: string }[]) => list.map(c => c.name);
+const defaults = { query: '', sort: 'name' as const, hideArchived: true, starredIds: [] };
+
+describe('channel browser', () => {
+  it('matches query characters in order and ranks word starts higher', () => {
+    expect(fuzzyScore('eng-releases', 'engrel')).not.toBeNull();
+    expect(fuzzyScore('eng-releases', 'rele')! > fuzzyScore('general', 'rel')!).toBe(true);
+    expect(fuzzyScore('general', 'lg')).toBeNull();
+    expect(fuzzyScore('general', '#gen')).toBe(fuzzyScore('general', 'gen'));
+  });
+
+  it('filters by query and hides archived channels unless asked', () => {
+    expect(names(browseChannels(channels, { ...defaults, query: 'eng' }))).toEqual(['engineering', 'eng-releases']);
+    expect(names(browseChannels(channels, defaults))).not.toContain('old-launch');
+    expect(names(browseChannels(channels, { ...defaults, hideArchived: false }))).toContain('old-launch');
+  });
+
+  it('puts starred channels first, then applies the sort', () => {
+    const sorted = browseChannels(channels, { ...defaults, sort: 'members', hideArchived: false, starredIds: ['C2'] });
+
+    expect(names(sorted)).toEqual(['eng-releases', 'old-launch', 'general', 'engineering']);
+  });
+});
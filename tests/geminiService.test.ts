@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const generateContent = vi.fn();
+const generateContentStream = vi.fn();
+const clientOptions: unknown[] = [];
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: class {
+    models = { generateContent, generateContentStream };
+    constructor(options: unknown) {
+      clientOptions.push(options);
+    }
+  },
+}));
+
+const { GeminiService } = await import('../services/geminiService');
+
+describe('GeminiService', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    generateContentStream.mockReset();
+    clientOptions.length = 0;
+  });
+
+  it('sends the system prompt separately from the input', async () => {
+    generateContent.mockResolvedValue({ text: 'Refined' });
+    const signal = new AbortController().signal;
+
+    const text = await new GeminiService('key-1', 'gemini-test').generate({
+      task: 'refine',
+      system: 'Rewrite the message.',
+      input: '<message>hi</message>',
+      signal,
+    });
+
+    expect(text).toBe('Refined');
+    expect(clientOptions).toEqual([{ apiKey: 'key-1' }]);
+    expect(generateContent).toHaveBeenCalledWith({
+      model: 'gemini-test',
+      contents: '<message>hi</message>',
+      config: {
+        systemInstruction: 'Rewrite the message.',
+        responseMimeType: undefined,
+        responseJsonSchema: undefined,
+        abortSignal: signal,
+      },
+    });
+  });
+
+  it('asks for JSON when a schema is given', async () => {
+    generateContent.mockResolvedValue({ text: '{}' });
+    const schema = { type: 'object' };
+
+    await new GeminiService('key', 'gemini-test').generate({ task: 'summarize', system: 's', input: 'i', schema });
+
+    expect(generateContent.mock.calls[0][0].config).toMatchObject({
+      responseMimeType: 'application/json',
+      responseJsonSchema: schema,
+    });
+  });
+
+  it('returns an empty string when the response has no text', async () => {
+    generateContent.mockResolvedValue({});
+
+    await expect(new GeminiService('key', 'gemini-test').generate({ task: 'reply', system: 's', input: 'i' })).resolves.toBe('');
+  });
+
+  it('streams text chunks and skips empty ones', async () => {
+    generateContentStream.mockResolvedValue((async function* () {
+      yield { text: 'Hello' };
+      yield {};
+      yield { text: ' world' };
+    })());
+
+    const chunks: string[] = [];
+    for await (const chunk of new GeminiService('key', 'gemini-test').stream({ task: 'refine', system: 's', input: 'i' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hello', ' world']);
+  });
+
+  it('propagates API failures', async () => {
+    generateContent.mockRejectedValue(new Error('PERMISSION_DENIED'));
+
+    await expect(new GeminiService('bad', 'gemini-test').generate({ task: 'refine', system: 's', input: 'i' })).rejects.toThrow('PERMISSION_DENIED');
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlackService } from '../services/slackService';
+import { createOutboxStore, deliverOutboxEntry, isOutboxError, retryDelay } from '../services/outbox';
+import { OutboxEntry } from '../types';
+import { FAKE_SLACK_BASE, FAKE_TOKEN, FakeSlackApi } from './fakeSlackApi';
+
+const entry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id: 'outbox-1',
+  workspaceId: 'W1',
+  channelId: 'C001',
+  channelName: 'general',
+  text: 'Deploy finished',
+  options: {},
+  createdAt: 1700000000 * 1000,
+  attempts: 1,
+  status: 'queued',
+  nextAttemptAt: 0,
+  ...overrides,
+});
+
+describe('outbox', () => {
+  let slack: FakeSlackApi;
+  const service = () => new SlackService(FAKE_TOKEN, null, FAKE_SLACK_BASE);
+
+  beforeEach(() => {
+    slack = new FakeSlackApi();
+    vi.stubGlobal('fetch', slack.fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('queues network, relay and server failures but not Slack rejections', () => {
+    expect(isOutboxError('CORS_ERROR')).toBe(true);
+    expect(isOutboxError('HTTP_503')).toBe(true);
+    expect(isOutboxError('fatal_error')).toBe(true);
+    expect(isOutboxError('channel_not_found')).toBe(false);
+    expect(isOutboxError('HTTP_403')).toBe(false);
+  });
+
+  it('backs off exponentially up to a ceiling', () => {
+    expect([1, 2, 3].map(retryDelay)).toEqual([5000, 10000, 20000]);
+    expect(retryDelay(20)).toBe(5 * 60 * 1000);
+  });
+
+  it('posts a queued entry tagged with its outbox ID', async () => {
+    const result = await deliverOutboxEntry(service(), entry());
+
+    expect(result.duplicate).toBe(false);
+    expect(slack.messages.C001).toHaveLength(1);
+    expect(slack.messages.C001[0].metadata?.event_payload).toEqual({ outbox_id: 'outbox-1' });
+  });
+
+  it('does not post again when an earlier attempt already reached Slack', async () => {
+    // The original send landed, but its response was lost
+    await service().sendMessage('C001', 'Deploy finished', { outboxId: 'outbox-1' });
+
+    const result = await deliverOutboxEntry(service(), entry());
+
+    expect(result).toEqual({ ts: slack.messages.C001[0].ts, duplicate: true });
+    expect(slack.messages.C001).toHaveLength(1);
+    expect(slack.callsTo('chat.postMessage')).toHaveLength(1);
+  });
+
+  it('finds an earlier attempt that busy traffic pushed past the first page', async () => {
+    slack = new FakeSlackApi({ pageSize: 2 });
+    vi.stubGlobal('fetch', slack.fetch);
+    await service().sendMessage('C001', 'Deploy finished', { outboxId: 'outbox-1' });
+    const later = ['one', 'two', 'three'].map((text, i) => ({ type: 'message', ts: `1700000100.00000${i}`, text, user: 'U002' }));
+    slack.messages.C001.push(...later);
+
+    const result = await deliverOutboxEntry(service(), entry());
+
+    expect(result.duplicate).toBe(true);
+    expect(slack.callsTo('conversations.history')).toHaveLength(2);
+    expect(slack.callsTo('chat.postMessage')).toHaveLength(1);
+  });
+
+  it('falls back to an in-memory store without IndexedDB', async () => {
+    const store = createOutboxStore();
+    await store.put(entry({ id: 'b', createdAt: 2 }));
+    await store.put(entry({ id: 'a', createdAt: 1 }));
+    await store.remove('b');
+
+    expect((await store.list()).map(e => e.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,11 @@
+import { webcrypto } from 'node:crypto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom's crypto lacks SubtleCrypto, which the token vault needs
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
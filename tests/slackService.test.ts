@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlackService } from '../services/slackService';
+import { SchedulerState } from '../types';
+import { FAKE_SLACK_BASE, FAKE_TOKEN, FakeSlackApi, fakeChannel } from './fakeSlackApi';
+
+describe('SlackService', () => {
+  let slack: FakeSlackApi;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    slack = new FakeSlackApi({
+      channels: Array.from({ length: 5 }, (_, i) => fakeChannel(`C00${i}`, `channel-${i}`)),
+      pageSize: 2,
+    });
+    vi.stubGlobal('fetch', slack.fetch);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  // Tier pacing and backoff run on timers, so let them fire while the call settles
+  const settle = async <T>(promise: Promise<T>): Promise<T> => {
+    const result: Promise<{ value: T } | { error: unknown }> = promise.then(value => ({ value }), error => ({ error }));
+    await vi.runAllTimersAsync();
+    const outcome = await result;
+    if ('error' in outcome) throw outcome.error;
+    return outcome.value;
+  };
+
+  const service = (token = FAKE_TOKEN) => new SlackService(token, null, FAKE_SLACK_BASE);
+
+  it('authenticates against the configured base URL', async () => {
+    const identity = await settle(service().testConnection());
+
+    expect(identity.team).toBe('Fake Team');
+    expect(slack.callsTo('auth.test')).toEqual([{ method: 'auth.test', params: {}, token: FAKE_TOKEN }]);
+  });
+
+  it('surfaces Slack errors such as a rejected token', async () => {
+    await expect(settle(service('xoxb-wrong').testConnection())).rejects.toThrow('invalid_auth');
+  });
+
+  it('follows conversations.list cursors until the last page', async () => {
+    const channels = await settle(service().fetchChannels());
+
+    expect(channels.map(c => c.id)).toEqual(['C000', 'C001', 'C002', 'C003', 'C004']);
+    expect(slack.callsTo('conversations.list').map(call => call.params.cursor)).toEqual([undefined, '2', '4']);
+  });
+
+  it('posts messages with their thread options', async () => {
+    const sent = await settle(service().sendMessage('C001', 'Deploy done', { threadTs: '1.000', replyBroadcast: true }));
+
+    expect(sent.ok).toBe(true);
+    expect(slack.messages.C001.map(m => m.text)).toEqual(['Deploy done']);
+    expect(slack.callsTo('chat.postMessage')[0].params).toMatchObject({
+      channel: 'C001',
+      text: 'Deploy done',
+      thread_ts: '1.000',
+      reply_broadcast: true,
+    });
+  });
+
+  it('paces posts per channel instead of queueing every channel behind one another', async () => {
+    const api = service();
+    const sends = [
+      api.sendMessage('C001', 'First to general'),
+      api.sendMessage('C002', 'First to random'),
+      api.sendMessage('C001', 'Second to general'),
+    ];
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(slack.messages.C001?.map(m => m.text)).toEqual(['First to general']);
+    expect(slack.messages.C002?.map(m => m.text)).toEqual(['First to random']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(slack.messages.C001.map(m => m.text)).toEqual(['First to general', 'Second to general']);
+    await Promise.all(sends);
+  });
+
+  it('waits out Retry-After on a 429 and reports the pause', async () => {
+    slack.rateLimitNext('chat.postMessage', 3);
+    const api = service();
+    const states: SchedulerState[] = [];
+    api.onQueueChange(state => states.push(state));
+
+    await settle(api.sendMessage('C001', 'Hello'));
+
+    expect(slack.callsTo('chat.postMessage')).toHaveLength(2);
+    expect(states.find(state => state.rateLimitedUntil !== null)?.pausedLanes).toEqual(['post:C001']);
+    expect(states[states.length - 1]).toMatchObject({ rateLimitedUntil: null, pausedLanes: [] });
+  });
+
+  it('retries transient failures with backoff', async () => {
+    slack.serverErrorNext('auth.test');
+    slack.failNext('auth.test', 'internal_error');
+
+    await settle(service().testConnection());
+
+    expect(slack.callsTo('auth.test')).toHaveLength(3);
+  });
+
+  it('does not blindly resend a write after a server error', async () => {
+    slack.serverErrorNext('chat.postMessage', 500);
+    slack.failNext('chat.update', 'fatal_error');
+    const api = service();
+
+    await expect(settle(api.sendMessage('C001', 'Hello'))).rejects.toThrow('HTTP_500');
+    await expect(settle(api.updateMessage('C001', '1.000', 'Hello again'))).rejects.toThrow('fatal_error');
+    expect(slack.callsTo('chat.postMessage')).toHaveLength(1);
+    expect(slack.callsTo('chat.update')).toHaveLength(1);
+  });
+
+  it('gives up once retries are exhausted', async () => {
+    for (let i = 0; i < 5; i++) slack.serverErrorNext('auth.test', 502);
+
+    await expect(settle(service().testConnection())).rejects.toThrow('HTTP_502');
+    expect(slack.callsTo('auth.test')).toHaveLength(5);
+  });
+
+  it('does not retry errors that will not go away', async () => {
+    await expect(settle(service().sendMessage('C999', 'Hello'))).rejects.toThrow('channel_not_found');
+    expect(slack.callsTo('chat.postMessage')).toHaveLength(1);
+  });
+
+  it('reads granted scopes from the x-oauth-scopes header', async () => {
+    const { identity, scopes } = await settle(service().inspectToken());
+
+    expect(identity.user).toBe('fakebot');
+    expect(scopes).toEqual(['channels:read', 'channels:history', 'chat:write', 'users:read']);
+  });
+
+  it('joins, inspects and leaves a channel', async () => {
+    slack.channels[1] = fakeChannel('C001', 'channel-1', { is_member: false, num_members: 12 });
+    const api = service();
+
+    const joined = await settle(api.joinChannel('C001'));
+    const info = await settle(api.fetchChannelInfo('C001'));
+    await settle(api.leaveChannel('C001'));
+
+    expect(joined.is_member).toBe(true);
+    expect(info.num_members).toBe(12);
+    expect(slack.callsTo('conversations.info')[0].params).toEqual({ channel: 'C001', include_num_members: 'true' });
+    expect(slack.channels[1].is_member).toBe(false);
+    await expect(settle(api.leaveChannel('C001'))).rejects.toThrow('not_in_channel');
+  });
+
+  it('uploads a file to the URL Slack hands out and shares it into a channel', async () => {
+    vi.stubGlobal('XMLHttpRequest', slack.XMLHttpRequest);
+    const api = service();
+    const progress: number[] = [];
+
+    const fileId = await settle(api.uploadFile(new File(['0123456789'], 'report.csv'), fraction => progress.push(fraction)));
+    await settle(api.completeUploads('C001', [{ id: fileId, title: 'Q3 report' }], 'Numbers attached'));
+
+    expect(slack.callsTo('files.getUploadURLExternal')[0].params).toEqual({ filename: 'report.csv', length: '10' });
+    expect(slack.uploads[fileId]).toEqual({ filename: 'report.csv', length: 10, received: 10 });
+    expect(progress).toEqual([0.5, 1]);
+    expect(slack.callsTo('files.completeUploadExternal')[0].params).toMatchObject({ channel_id: 'C001', files: [{ id: fileId, title: 'Q3 report' }] });
+    expect(slack.messages.C001).toEqual([
+      expect.objectContaining({ text: 'Numbers attached', files: [{ id: fileId, name: 'report.csv' }] }),
+    ]);
+  });
+
+  it('prefixes requests with the proxy URL', async () => {
+    const relay = 'https://relay.test/slack-relay?';
+    const seen: string[] = [];
+    vi.stubGlobal('fetch', (input: string, init: RequestInit) => {
+      seen.push(input);
+      return slack.fetch(input.slice(relay.length), init);
+    });
+
+    await settle(new SlackService(FAKE_TOKEN, relay, FAKE_SLACK_BASE).testConnection());
+
+    expect(seen).toEqual([`${relay}${FAKE_SLACK_BASE}/auth.test`]);
+  });
+});
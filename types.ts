@@ -6,26 +6,260 @@ export interface SlackChannel {
   is_group: boolean;
   is_im: boolean;
   is_private: boolean;
+  is_archived?: boolean;
+  is_member?: boolean;
   num_members?: number;
+  topic?: { value: string };
+  purpose?: { value: string };
 }
 
+export type ChannelSort = 'name' | 'members';
+
 export interface SlackUser {
   id: string;
   name: string;
   real_name: string;
+  deleted?: boolean;
+  is_bot?: boolean;
   profile: {
     image_72: string;
+    display_name?: string;
+    real_name?: string;
+  };
+}
+
+export interface SlackMessage {
+  type: string;
+  subtype?: string;
+  ts: string;
+  text: string;
+  user?: string;
+  bot_id?: string;
+  username?: string;
+  thread_ts?: string;
+  reply_count?: number;
+  latest_reply?: string;
+  blocks?: SlackBlock[];
+  metadata?: {
+    event_type: string;
+    event_payload: Record<string, any>;
+  };
+  files?: {
+    id: string;
+    name: string;
+    permalink?: string;
+  }[];
+  edited?: {
+    user: string;
+    ts: string;
   };
 }
 
+export interface SlackMessagePage {
+  messages: SlackMessage[];
+  nextCursor: string | null;
+}
+
+// --- Block Kit ---
+
+export interface PlainTextObject {
+  type: 'plain_text';
+  text: string;
+  emoji?: boolean;
+}
+
+export interface MrkdwnTextObject {
+  type: 'mrkdwn';
+  text: string;
+}
+
+export type TextObject = PlainTextObject | MrkdwnTextObject;
+
+export interface ButtonElement {
+  type: 'button';
+  text: PlainTextObject;
+  action_id?: string;
+  url?: string;
+  value?: string;
+  style?: 'primary' | 'danger';
+}
+
+export interface HeaderBlock {
+  type: 'header';
+  block_id?: string;
+  text: PlainTextObject;
+}
+
+export interface SectionBlock {
+  type: 'section';
+  block_id?: string;
+  text?: TextObject;
+  fields?: TextObject[];
+  accessory?: ButtonElement;
+}
+
+export interface DividerBlock {
+  type: 'divider';
+  block_id?: string;
+}
+
+export interface ContextBlock {
+  type: 'context';
+  block_id?: string;
+  elements: TextObject[];
+}
+
+export interface ActionsBlock {
+  type: 'actions';
+  block_id?: string;
+  elements: ButtonElement[];
+}
+
+export type SlackBlock = HeaderBlock | SectionBlock | DividerBlock | ContextBlock | ActionsBlock;
+
+export type SlackBlockType = SlackBlock['type'];
+
+export interface ThreadRef {
+  channelId: string;
+  ts: string;
+}
+
+export interface SendMessageOptions {
+  threadTs?: string;
+  replyBroadcast?: boolean;
+  blocks?: SlackBlock[];
+  // Tags the post with message metadata so a retry can tell whether an earlier attempt already landed
+  outboxId?: string;
+}
+
 export interface SlackMessageResponse {
   ok: boolean;
   channel?: string;
   ts?: string;
-  message?: any;
+  message?: SlackMessage;
+  error?: string;
+}
+
+export interface SlackScheduledMessage {
+  id: string;
+  channel_id: string;
+  post_at: number;
+  date_created: number;
+  text?: string;
+}
+
+export interface SlackScheduleResponse {
+  ok: boolean;
+  channel: string;
+  scheduled_message_id: string;
+  post_at: number;
+}
+
+export interface SentLogEntry {
+  // Channel IDs and timestamps only mean something in the workspace that sent the message
+  workspaceId: string | null;
+  channelId: string;
+  ts: string;
+  text: string;
+  blocks?: SlackBlock[];
+  threadTs?: string;
+  sentAt: number;
+  // Slack error from the last time the channel couldn't be reached; the message itself may still exist
+  staleError?: string;
+}
+
+export type AttachmentStatus = 'pending' | 'uploading' | 'uploaded' | 'error';
+
+export interface ComposerAttachment {
+  id: string;
+  file: File;
+  status: AttachmentStatus;
+  progress: number;
+  fileId?: string;
+  error?: string;
+}
+
+export type EmojiPolicy = 'none' | 'sparing' | 'expressive';
+
+export interface StyleProfile {
+  id: string;
+  name: string;
+  instructions: string;
+  examples: string[];
+  bannedPhrases: string[];
+  emojiPolicy: EmojiPolicy;
+  builtIn?: boolean;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  // Empty means the provider's default model
+  model: string;
+  apiKey: string;
+  // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1
+  baseUrl: string;
+}
+
+export type LLMTask = 'refine' | 'summarize' | 'reply';
+
+export type RefinementStatus = 'complete' | 'cancelled' | 'timeout' | 'unavailable' | 'failed' | 'rejected';
+
+export interface RefinementResult {
+  status: RefinementStatus;
+  // Always non-empty; falls back to the original draft when no usable output arrived
+  candidates: string[];
+}
+
+export interface ConversationSummary {
+  highlights: string[];
+  decisions: string[];
+  openQuestions: string[];
+  actionItems: string[];
+}
+
+export interface SummaryTarget {
+  channelId: string;
+  channelName: string;
+  // Set when summarizing a single thread rather than recent channel history
+  threadTs?: string;
+  sinceHours?: number;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  // Message text with {{variable}} placeholders
+  body: string;
+  defaultChannelId?: string;
+  styleProfileId?: string;
+}
+
+export interface ChannelGroup {
+  id: string;
+  workspaceId: string | null;
+  name: string;
+  channelIds: string[];
+}
+
+export type BroadcastStatus = 'pending' | 'sending' | 'ok' | 'not_in_channel' | 'channel_not_found' | 'rate_limited' | 'error';
+
+export interface BroadcastResult {
+  channelId: string;
+  status: BroadcastStatus;
+  ts?: string;
   error?: string;
 }
 
+export interface SchedulerState {
+  pending: number;
+  rateLimitedUntil: number | null;
+  // Lanes (see laneKey) Slack has currently asked us to back off from
+  pausedLanes: string[];
+  retrying: boolean;
+}
+
 export enum AppStatus {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -40,3 +274,70 @@ export interface AppState {
   status: AppStatus;
   errorMessage: string | null;
 }
+
+// Who a token authenticates as, from auth.test
+export interface SlackIdentity {
+  url: string;
+  team: string;
+  team_id: string;
+  user: string;
+  user_id: string;
+  bot_id?: string;
+}
+
+// AES-GCM ciphertext with its IV, both base64-encoded
+export interface EncryptedSecret {
+  iv: string;
+  data: string;
+}
+
+// Stored alongside the workspaces so a passphrase can be checked without decrypting a token
+export interface TokenVault {
+  salt: string;
+  check: EncryptedSecret;
+}
+
+export interface WorkspaceConnection {
+  id: string;
+  name: string;
+  identity: SlackIdentity;
+  useProxy: boolean;
+  token: EncryptedSecret;
+}
+
+export type SlackTokenType = 'bot' | 'user' | 'app' | 'unknown';
+
+export interface TokenInspection {
+  identity: SlackIdentity;
+  type: SlackTokenType;
+  // null when Slack's scope header couldn't be read
+  scopes: string[] | null;
+  // App features the granted scopes don't cover
+  unavailable: string[];
+}
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+// A send that couldn't reach Slack, kept in IndexedDB until it is delivered or discarded
+export interface OutboxEntry {
+  id: string;
+  workspaceId: string | null;
+  channelId: string;
+  channelName: string;
+  text: string;
+  options: SendMessageOptions;
+  createdAt: number;
+  attempts: number;
+  status: OutboxStatus;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// Unsent composer text for one channel or thread, kept across channel switches and reloads
+export interface MessageDraft {
+  workspaceId: string | null;
+  channelId: string;
+  threadTs?: string;
+  text: string;
+  updatedAt: number;
+}
@@ -1,6 +1,18 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { RELAY_PATH, createSlackRelay } from './relay/slackRelay.mjs';
+
+// Serves the Slack relay from the dev and preview servers so proxy mode works without a third party
+const slackRelay = (): Plugin => ({
+  name: 'slack-relay',
+  configureServer(server) {
+    server.middlewares.use(RELAY_PATH, createSlackRelay());
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(RELAY_PATH, createSlackRelay());
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +21,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), slackRelay()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)